@@ -1,6 +1,11 @@
 // app/_layout.tsx
 import { Stack } from 'expo-router';
 
+// Ook bij een deep link (birthdayreminder://person/<id>) staat de lijst eronder: die laadt en bewaart de data
+export const unstable_settings = {
+  initialRouteName: 'index',
+};
+
 export default function RootLayout() {
   return (
     <Stack screenOptions={{ headerShown: false }} />
@@ -0,0 +1,8 @@
+// app/add.tsx
+// birthdayreminder://add?… → verzoek klaarzetten voor index.tsx (zie lib/automation.ts)
+import { useAutomationLink } from '@/lib/automation';
+
+export default function AddLink() {
+  useAutomationLink('add');
+  return null;
+}
@@ -0,0 +1,270 @@
+// app/calendar.tsx
+// Kalender: maandrooster met een stip per gebeurtenis (kleur per EventType), swipen tussen
+// maanden en tikken op een dag; of als agenda met de komende 12 maanden onder elkaar.
+import { FontAwesome } from '@expo/vector-icons';
+import { addDays, addMonths, endOfMonth, endOfWeek, isSameDay, isSameMonth, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { router } from 'expo-router';
+import { StatusBar as ExpoStatusBar } from 'expo-status-bar';
+import React, { useMemo, useRef, useState } from 'react';
+import { PanResponder, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  Avatar,
+  BackHeader,
+  EventTypeLegend,
+  Pill,
+  WEEKDAY_ABBR,
+  ageOn,
+  agePhrase,
+  contactsStore,
+  eventColor,
+  flattenContacts,
+  nextOccurrence,
+  settingsStore,
+  t,
+  useAppTheme,
+  type LeapDayPolicy,
+  type Locale,
+  type Person,
+  type ThemeColors,
+} from './index';
+
+// Meer stippen passen niet onder een dagnummer; de rest wordt "+"
+const MAX_DOTS = 3;
+const AGENDA_MONTHS = 12;
+// Zoveel pixels horizontaal schuiven = naar de vorige/volgende maand
+const SWIPE_DISTANCE = 50;
+
+// "oktober 2026" / "October 2026"
+function formatMonth(d: Date, L: Locale) {
+  const s = new Intl.DateTimeFormat(L === 'nl' ? 'nl-NL' : 'en-US', { month: 'long', year: 'numeric' }).format(d);
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+// Wie er in deze maand iets te vieren heeft, per dag van de maand. Jaren vóór het
+// geboorte-/trouwjaar tellen niet mee.
+function occurrencesInMonth(people: Person[], month: Date, leapDay: LeapDayPolicy) {
+  const byDay = new Map<number, Person[]>();
+  for (const p of people) {
+    const occ = nextOccurrence(p.dateISO, month, leapDay);
+    if (!isSameMonth(occ, month)) continue;
+    if (!p.dateISO.startsWith('--') && occ.getFullYear() < Number(p.dateISO.slice(0, 4))) continue;
+    const list = byDay.get(occ.getDate()) ?? [];
+    list.push(p);
+    byDay.set(occ.getDate(), list);
+  }
+  byDay.forEach(list => list.sort((a, b) => a.name.localeCompare(b.name)));
+  return byDay;
+}
+
+// Maandag t/m zondag, inclusief de aanloop- en uitloopdagen van de buurmaanden
+function weeksOf(month: Date) {
+  const weeks: Date[][] = [];
+  const last = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+  for (let d = startOfWeek(month, { weekStartsOn: 1 }); d <= last; d = addDays(d, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDays(d, i)));
+  }
+  return weeks;
+}
+
+const titleOf = (L: Locale, p: Person) =>
+  p.type === 'other'
+    ? (p.label?.trim() || t(L, 'other'))
+    : [t(L, p.type), p.label?.trim()].filter(Boolean).join(' · ');
+
+const openPerson = (p: Person) => router.push({ pathname: '/person/[id]', params: { id: p.contactId ?? p.id } });
+
+export default function CalendarScreen() {
+  const [contacts] = contactsStore.use();
+  const [settings] = settingsStore.use();
+  const L = settings.locale;
+  const leapDay = settings.leapDayPolicy;
+  const { effectiveTheme, C, styles } = useAppTheme(settings.themeMode);
+  const cal = useMemo(() => createCalendarStyles(C), [C]);
+
+  const today = startOfDay(new Date());
+  const [view, setView] = useState<'month' | 'agenda'>('month');
+  const [month, setMonth] = useState(() => startOfMonth(today));
+  const [selected, setSelected] = useState<Date | null>(today);
+
+  const people = useMemo(() => flattenContacts(contacts), [contacts]);
+  const byDay = useMemo(() => occurrencesInMonth(people, month, leapDay), [people, month, leapDay]);
+  const weeks = useMemo(() => weeksOf(month), [month]);
+
+  const agenda = useMemo(() => {
+    const first = startOfMonth(today);
+    return Array.from({ length: AGENDA_MONTHS }, (_, i) => {
+      const m = addMonths(first, i);
+      const days = [...occurrencesInMonth(people, m, leapDay).entries()]
+        .filter(([day]) => i > 0 || day >= today.getDate())
+        .sort(([a], [b]) => a - b)
+        .map(([day, list]) => ({ date: new Date(m.getFullYear(), m.getMonth(), day), list }));
+      return { month: m, days };
+    });
+  }, [people, leapDay, today.getTime()]);
+
+  const changeMonth = (delta: number) => {
+    setMonth(m => addMonths(m, delta));
+    setSelected(null);
+  };
+
+  // Alleen duidelijk horizontale bewegingen overnemen, zodat verticaal scrollen blijft werken
+  const swipe = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, g) => Math.abs(g.dx) > 20 && Math.abs(g.dx) > Math.abs(g.dy) * 2,
+      onPanResponderRelease: (_, g) => {
+        if (g.dx <= -SWIPE_DISTANCE) changeMonth(1);
+        else if (g.dx >= SWIPE_DISTANCE) changeMonth(-1);
+      },
+    })
+  ).current;
+
+  const renderPerson = (p: Person, date: Date, key: string) => {
+    const isToday = isSameDay(date, today);
+    const age = ageOn(p.dateISO, date, leapDay);
+    return (
+      <TouchableOpacity key={key} style={[styles.personRow, isToday && styles.rowToday]} onPress={() => openPerson(p)}>
+        <View style={styles.rowClip}>
+          <View style={[styles.typeBar, { backgroundColor: eventColor(C, p.type) }]} />
+          <Avatar name={p.name} colorKey={p.contactId ?? p.id} uri={p.photoUri} size={36} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.personName}>{p.name}</Text>
+            <Text style={styles.personSub}>
+              {[titleOf(L, p), agePhrase(L, age, date > today ? 'upcoming' : 'current', p.type)].filter(Boolean).join(' • ')}
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const selectedPeople = selected && isSameMonth(selected, month) ? byDay.get(selected.getDate()) ?? [] : [];
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ExpoStatusBar style={effectiveTheme === 'light' ? 'dark' : 'light'} />
+
+      <BackHeader L={L} styles={styles}>
+        <Text style={[styles.h1, { flex: 1 }]}>{t(L, 'calendar')}</Text>
+      </BackHeader>
+
+      <View style={{ flexDirection: 'row', gap: 8, marginHorizontal: 16, marginBottom: 8 }}>
+        <Pill active={view === 'month'} onPress={() => setView('month')} styles={styles}>{t(L, 'calendarMonth')}</Pill>
+        <Pill active={view === 'agenda'} onPress={() => setView('agenda')} styles={styles}>{t(L, 'calendarAgenda')}</Pill>
+      </View>
+
+      {view === 'month' ? (
+        <ScrollView contentContainerStyle={{ paddingBottom: 48 }}>
+          <View {...swipe.panHandlers}>
+            <View style={cal.monthHeader}>
+              <TouchableOpacity style={[styles.iconBtn, { marginLeft: 0 }]} onPress={() => changeMonth(-1)} accessibilityLabel={t(L, 'calendarPrev')}>
+                <FontAwesome name="chevron-left" size={14} color={C.textDim} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={{ flex: 1 }}
+                onPress={() => { setMonth(startOfMonth(today)); setSelected(today); }}
+                accessibilityLabel={t(L, 'calendarThisMonth')}
+              >
+                <Text style={cal.monthTitle}>{formatMonth(month, L)}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconBtn} onPress={() => changeMonth(1)} accessibilityLabel={t(L, 'calendarNext')}>
+                <FontAwesome name="chevron-right" size={14} color={C.textDim} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={cal.grid}>
+              <View style={cal.week}>
+                {WEEKDAY_ABBR[L].map(label => (
+                  <Text key={label} style={cal.weekday}>{label}</Text>
+                ))}
+              </View>
+              {weeks.map(week => (
+                <View key={week[0].getTime()} style={cal.week}>
+                  {week.map(day => {
+                    const inMonth = isSameMonth(day, month);
+                    const list = inMonth ? byDay.get(day.getDate()) ?? [] : [];
+                    const isSelected = !!selected && isSameDay(day, selected);
+                    return (
+                      <TouchableOpacity
+                        key={day.getTime()}
+                        style={[cal.day, isSameDay(day, today) && cal.dayToday, isSelected && cal.daySelected]}
+                        disabled={!inMonth}
+                        onPress={() => setSelected(day)}
+                      >
+                        <Text style={[cal.dayNumber, !inMonth && cal.dayOutside]}>{day.getDate()}</Text>
+                        <View style={cal.dots}>
+                          {list.slice(0, MAX_DOTS).map(p => (
+                            <View key={p.id} style={[cal.dot, { backgroundColor: eventColor(C, p.type) }]} />
+                          ))}
+                          {list.length > MAX_DOTS && <Text style={cal.more}>+</Text>}
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+            </View>
+
+            <EventTypeLegend L={L} C={C} styles={styles} />
+          </View>
+
+          {selected && isSameMonth(selected, month) ? (
+            <>
+              <Text style={styles.h2}>{new Intl.DateTimeFormat(L === 'nl' ? 'nl-NL' : 'en-US', { weekday: 'long', day: 'numeric', month: 'long' }).format(selected)}</Text>
+              {selectedPeople.length === 0
+                ? <Text style={styles.empty}>{t(L, 'calendarNoneOnDay')}</Text>
+                : selectedPeople.map(p => renderPerson(p, selected, p.id))}
+            </>
+          ) : (
+            <Text style={[styles.empty, { marginTop: 16 }]}>{t(L, 'calendarPickDay')}</Text>
+          )}
+        </ScrollView>
+      ) : (
+        <ScrollView contentContainerStyle={{ paddingBottom: 48 }}>
+          {agenda.map(({ month: m, days }) => (
+            <View key={m.getTime()}>
+              <Text style={styles.h2}>{formatMonth(m, L)}</Text>
+              {days.length === 0 && <Text style={styles.empty}>{t(L, 'calendarNoneInMonth')}</Text>}
+              {days.map(({ date, list }) => (
+                <View key={date.getTime()} style={cal.agendaDay}>
+                  <View style={cal.agendaDate}>
+                    <Text style={cal.agendaDayNumber}>{date.getDate()}</Text>
+                    <Text style={styles.personTags}>{WEEKDAY_ABBR[L][(date.getDay() + 6) % 7]}</Text>
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    {list.map(p => renderPerson(p, date, `${p.id}:${date.getTime()}`))}
+                  </View>
+                </View>
+              ))}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+function createCalendarStyles(C: ThemeColors) {
+  return StyleSheet.create({
+    monthHeader: { flexDirection: 'row', alignItems: 'center', marginHorizontal: 16, marginBottom: 8 },
+    monthTitle: { color: C.text, fontSize: 18, fontWeight: '800', textAlign: 'center' },
+
+    grid: { marginHorizontal: 12 },
+    week: { flexDirection: 'row' },
+    weekday: { flex: 1, textAlign: 'center', color: C.textMuted, fontSize: 12, fontWeight: '700', paddingVertical: 4 },
+    day: {
+      flex: 1, alignItems: 'center', paddingVertical: 6, margin: 2, minHeight: 48,
+      borderRadius: 10, borderWidth: 1, borderColor: 'transparent',
+    },
+    dayToday: { backgroundColor: C.highlightTodayBg, borderColor: C.highlightTodayBorder },
+    daySelected: { borderColor: C.accent },
+    dayNumber: { color: C.text, fontWeight: '600' },
+    dayOutside: { color: C.textMuted, opacity: 0.4 },
+    dots: { flexDirection: 'row', alignItems: 'center', gap: 3, marginTop: 4, minHeight: 8 },
+    dot: { width: 6, height: 6, borderRadius: 3 },
+    more: { color: C.textMuted, fontSize: 10, lineHeight: 10 },
+
+    agendaDay: { flexDirection: 'row', alignItems: 'flex-start' },
+    agendaDate: { width: 44, alignItems: 'center', paddingTop: 12, marginLeft: 8 },
+    agendaDayNumber: { color: C.text, fontSize: 18, fontWeight: '800' },
+  });
+}
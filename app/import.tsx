@@ -0,0 +1,8 @@
+// app/import.tsx
+// birthdayreminder://import?… → verzoek klaarzetten voor index.tsx (zie lib/automation.ts)
+import { useAutomationLink } from '@/lib/automation';
+
+export default function ImportLink() {
+  useAutomationLink('import');
+  return null;
+}
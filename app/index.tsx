@@ -2,6 +2,7 @@ import { FontAwesome, Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { FlashList, type ListRenderItemInfo } from '@shopify/flash-list';
 import {
+  differenceInCalendarDays,
   isSameDay,
   isWithinInterval,
   startOfDay
@@ -10,9 +11,10 @@ import {
 import * as Application from 'expo-application';
 import { BlurView } from 'expo-blur';
 import * as DocumentPicker from 'expo-document-picker';
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
 import * as Notifications from 'expo-notifications';
 import * as Sharing from 'expo-sharing';
+import { router, useLocalSearchParams } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar as ExpoStatusBar } from 'expo-status-bar';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
@@ -25,6 +27,7 @@ import {
   Platform,
   Pressable,
   SafeAreaView,
+  ScrollView,
   Share,
   StyleSheet,
   Text,
@@ -33,15 +36,28 @@ import {
   View,
   useColorScheme
 } from 'react-native';
+import { avatarColor, avatarUri, cleanupAvatarsAsync, initialsOf, pickAvatarAsync, readAvatarFilesAsync, writeAvatarFilesAsync } from '@/lib/avatars';
 import {
+  addNotificationActionListener,
   buildNotificationSignature,
+  defineNotificationActionTask,
+  defineNotificationTopUpTask,
   ensureAndroidChannels, // optioneel als je dit expliciet hier nog wilt aanroepen
   ensureNotifPerms,
-  rescheduleAllNotifications
-} from './notifications';
-// ---- SAFE STORAGE LAYER (MMKV + fallback to AsyncStorage) ----
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { MMKV } from 'react-native-mmkv';
+  registerNotificationTopUpAsync,
+  rescheduleAllNotifications,
+  webNotificationPermission,
+  type NotificationActionHandlers
+} from '@/lib/notifications';
+import { automationRequest, callbackUrl, fetchImportText, parseAddParams, queryPeople, withoutExistingIds, type AutomationRequest } from '@/lib/automation';
+import { createBackup, looksLikeBackup, parseBackup, type Backup, type RestorePlan } from '@/lib/backup';
+import { normalizeDateISO } from '@/lib/dates';
+import { channelsFor, pickGreeting, renderGreeting, sendGreetingAsync, waNumber } from '@/lib/greet';
+import { looksLikeICS, parseICS, toICS } from '@/lib/ical';
+import { migrateData, migrateStorage, SCHEMA_KEY, SCHEMA_VERSION, type MigrationIO, type MigrationResult } from '@/lib/migrations';
+import { flushStorage, getItem, removeItem, setItem, setJSON } from '@/lib/storage';
+import { createSharedState } from '@/lib/store';
+import { looksLikeVCard, parseVCards, toVCards } from '@/lib/vcard';
 
 
 // Splash auto-hide uitzetten: we verbergen handmatig als de UI klaar is
@@ -49,17 +65,74 @@ SplashScreen.preventAutoHideAsync().catch(() => {});
 
 // ============== Types ==============
 export type EventType = 'birthday' | 'anniversary' | 'other';
-export type Person = {
+// Eén datum van een contact: een verjaardag, trouwdag, …
+export type PersonEvent = {
   id: string;
-  name: string;
   type: EventType;
-  dateISO: string;       // YYYY-MM-DD
-  label?: string;
+  dateISO: string;       // YYYY-MM-DD, of --MM-DD als het geboortejaar onbekend is
+  label?: string;        // bij 'other' de omschrijving, anders van wie (bv. 'Anna' bij 'Anna & Piet')
   sameDayReminder?: boolean;
+  leadDays?: number[];   // herinneringen N dagen vooraf; undefined = standaard uit Settings
+  reminderHour?: number; // eigen meldingstijd; undefined = sameDayHour/sameDayMinute
+  reminderMinute?: number;
+  greetingId?: string;   // vaste felicitatietekst; undefined = kiezen volgens Settings.greetingPick
+  congratulated?: number[]; // jaren waarin de felicitatie al verstuurd is
+};
+// Cadeau-idee (zonder year) of iets dat al gegeven is (met year)
+export type Gift = {
+  id: string;
+  title: string;
+  price?: number;        // bedrag zonder valuta
+  url?: string;
+  year?: number;         // gegeven in dit jaar; undefined = nog een idee
+  givenBy?: string;
+};
+// Felicitatietekst met {name}/{age}/{years}/{label}; zie lib/greet.ts
+export type GreetingTemplate = {
+  id: string;
+  type: 'birthday' | 'anniversary';
+  locale: Locale;
+  text: string;
+};
+// Hoe een felicitatie verstuurd wordt; zie lib/greet.ts
+export type GreetChannel = 'whatsapp' | 'sms' | 'email' | 'share';
+// Wat opgeslagen wordt: een contact met één of meer gebeurtenissen
+export type Contact = {
+  id: string;
+  name: string;
+  tags?: string[];       // namen; instellingen per tag staan in Settings.tags
+  photo?: string;        // bestandsnaam in documentDirectory/avatars/ (web: data-URL); zie lib/avatars.ts
+  notes?: string;
+  gifts?: Gift[];
+  phone?: string;        // bij voorkeur internationaal (+31…), nodig voor WhatsApp
+  email?: string;
+  greetChannel?: GreetChannel; // laatst gekozen kanaal; undefined = vragen
+  events: PersonEvent[];
+};
+// Platte weergave (lijsten, meldingen, exports): één regel per gebeurtenis.
+// id = id van de gebeurtenis; naam en tags komen van het contact.
+export type Person = PersonEvent & {
+  contactId?: string;    // ontbreekt bij imports uit andere apps
+  name: string;
+  tags?: string[];
+  photoUri?: string;
+  notes?: string;
+  giftIdeas?: number;    // aantal opgeslagen ideeën (voor het weekoverzicht)
+  phone?: string;
+  email?: string;
+  greetChannel?: GreetChannel;
+};
+// Groep zoals Familie of Werk; Settings.tags bevat de aangemaakte of ingestelde tags
+export type Tag = {
+  name: string;
+  muted?: boolean;       // geen meldingen voor iedereen met deze tag
+  leadDays?: number[];   // undefined = defaultLeadDays
 };
 export type SortMode = 'next' | 'name';
 export type FilterType = 'all' | EventType;
 export type Locale = 'nl' | 'en';
+// Waar vieren we 29 februari in jaren zonder schrikkeldag?
+export type LeapDayPolicy = 'feb28' | 'mar1';
 
 export type Settings = {
   weeklySummaryEnabled: boolean;
@@ -73,6 +146,13 @@ export type Settings = {
   filterType: FilterType;
   sortMode: SortMode;
   themeMode: 'system' | 'dark' | 'light';
+  leapDayPolicy: LeapDayPolicy;
+  defaultLeadDays: number[];
+  tags: Tag[];
+  filterTag: string | null;
+  notificationPhotos: boolean;
+  greetingTemplates: GreetingTemplate[];
+  greetingPick: 'random' | 'rotate';
 };
 
 type UpcomingItem = {
@@ -80,62 +160,18 @@ type UpcomingItem = {
   person: Person;
 };
 
-type KV = {
-  getString(key: string): string | undefined;
-  set(key: string, value: string): void;
-  delete(key: string): void;
+// Wat een import zou toevoegen, vóór de gebruiker bevestigt
+type ImportPreview = {
+  people: Person[];
+  skipped: { label: string; reason: string }[]; // reason = STR-key
 };
 
-let storage: KV;
-
-try {
-  // Probeer MMKV (snelste, beste optie)
-  const mmkv = new MMKV();
-  storage = {
-    getString: (k) => mmkv.getString(k),
-    set: (k, v) => mmkv.set(k, v),
-    delete: (k) => mmkv.delete(k),
-  };
-  console.log('Storage: MMKV actief');
-} catch (e) {
-  // Fallback naar AsyncStorage
-  console.log('MMKV init failed → fallback naar AsyncStorage', String(e));
-  storage = {
-    getString: (k) => {
-      // AsyncStorage is async → maar we geven sync-achtige wrapper terug
-      // => let op: initial load moet via getJSONAsync
-      console.warn('Gebruik getJSONAsync voor AsyncStorage keys');
-      return undefined;
-    },
-    set: (k, v) => { AsyncStorage.setItem(k, v); },
-    delete: (k) => { AsyncStorage.removeItem(k); },
-  };
-}
-
-// Synchronous helpers (werken goed met MMKV, limited met AsyncStorage)
-export const getItem = (k: string) => storage.getString(k) ?? null;
-export const setItem = (k: string, v: string) => storage.set(k, v);
-export const removeItem = (k: string) => storage.delete(k);
-
-// JSON helpers
-export function getJSON<T>(k: string): T | null {
-  const s = getItem(k);
-  if (!s) return null;
-  try { return JSON.parse(s) as T; } catch { return null; }
-}
-export function setJSON<T>(k: string, v: T) {
-  setItem(k, JSON.stringify(v));
-}
-
-// --- Extra: async versie voor als fallback AsyncStorage actief is ---
-export async function getJSONAsync<T>(k: string): Promise<T | null> {
-  try {
-    const raw = await AsyncStorage.getItem(k);
-    return raw ? (JSON.parse(raw) as T) : null;
-  } catch {
-    return null;
-  }
-}
+// Migraties schrijven direct door, zodat de schema-versie nooit vóór de data landt
+const storageIO: MigrationIO = {
+  read: getItem,
+  write: async (k, v) => { setItem(k, v); await flushStorage(); },
+  remove: async (k) => { removeItem(k); await flushStorage(); },
+};
 
 // ============== i18n ==============
 const STR: Record<Locale, Record<string, any>> = {
@@ -166,13 +202,21 @@ const STR: Record<Locale, Record<string, any>> = {
     time: 'Tijd weekmelding',
     daytime: 'Tijd dagmelding',
     language: 'Taal',
+    leapDay: '29 feb. in gewone jaren',
+    leapFeb28: '28 feb',
+    leapMar1: '1 mrt',
     nl: 'NL',
     en: 'EN',
     nameLabel: 'Naam',
     typeLabel: 'Type',
     labelLabel: 'Label (overig)',
     dateLabel: 'Datum',
+    yearUnknown: 'Jaar onbekend',
     sameDay: 'Melding op de dag zelf',
+    customTime: 'Eigen meldingstijd',
+    leadDays: 'Vooraf herinneren',
+    leadDaysDefault: 'Standaard',
+    leadDaysShort: (n: number) => `${n}d`,
     save: 'Opslaan',
     cancel: 'Annuleren',
     close: 'Sluiten',
@@ -181,6 +225,11 @@ const STR: Record<Locale, Record<string, any>> = {
     share: 'Deel',
     confirmDeleteTitle: 'Verwijderen',
     confirmDeleteMsg: (name: string) => `Weet je zeker dat je ${name} wilt verwijderen?`,
+    confirmDeleteEventMsg: (name: string, what: string) => `Weet je zeker dat je de ${what} van ${name} wilt verwijderen?`,
+    events: 'Gebeurtenissen',
+    eventAdd: '+ Toevoegen',
+    eventRemove: 'Deze gebeurtenis verwijderen',
+    eventLabel: 'Van wie? (optioneel)',
     aboutApp: 'Over deze app',
     aboutAppText:
       'My Birthday Tracker: Always remember every special day.\n\nDeze app helpt je bij het bijhouden van verjaardagen, huwelijksjubilea en andere speciale momenten. Je kan direct vanuit de app een WhatsApp aanmaken. De app is simpel en basic zonder overbodige functionaliteiten en doet precies wat hij moet doen: jou herinneren aan die ene speciale dag van een ander.\n\nGoed om te weten: jouw data staan lokaal op jouw telefoon, dus we kunnen ze nooit met andere delen. Dat willen we niet eens!\n\nTips: zet notificaties aan, maak regelmatig een backup (export).',
@@ -200,10 +249,140 @@ const STR: Record<Locale, Record<string, any>> = {
     csvExportDialog: 'CSV exporteren',
     csvImported: 'CSV geïmporteerd',
     csvHeaderInvalid: 'CSV-header ongeldig',
+    exportTitle: 'Exporteren',
+    exportCsv: 'CSV (spreadsheet)',
+    exportVCard: 'vCard (contacten)',
+    vcardExportDialog: 'vCard exporteren',
+    exportICS: 'iCalendar (agenda)',
+    icsExportDialog: 'Agenda exporteren',
+    exportBackup: 'Volledige back-up (JSON)',
+    backupExportDialog: 'Back-up exporteren',
+    restoreTitle: 'Back-up terugzetten',
+    restoreSummary: (date: string, n: number, withSettings: boolean) =>
+      `Back-up van ${date}\n${n} personen${withSettings ? ', met instellingen' : ''}.\n\nVervangen overschrijft je huidige personen en instellingen; samenvoegen voegt de personen toe en houdt je instellingen.`,
+    restoreMerge: 'Samenvoegen',
+    restoreReplace: 'Vervangen',
+    restoreDone: 'Back-up teruggezet',
+    backupInvalid: 'Dit is geen geldig back-upbestand',
+    backupTooNew: 'Deze back-up komt uit een nieuwere versie van de app',
+    migrationFailedTitle: 'Gegevens konden niet worden geladen',
+    migrationFailed: (code: string) =>
+      `Het bijwerken van je opgeslagen gegevens is mislukt (${code}). Er is niets gewijzigd of gewist. Exporteer een herstelbestand en neem contact met ons op.`,
+    migrationTooNew: 'Je gegevens zijn opgeslagen door een nieuwere versie van de app. Werk de app bij; er is niets gewijzigd of gewist.',
+    migrationExport: 'Herstelbestand exporteren',
+    migrationDroppedTitle: 'Niet alles kon worden bijgewerkt',
+    migrationDropped: (n: number) =>
+      `${n} ${n === 1 ? 'gebeurtenis had' : 'gebeurtenissen hadden'} een onleesbare datum en ${n === 1 ? 'is' : 'zijn'} niet overgenomen. Exporteer een herstelbestand om ze terug te vinden.`,
+    browserNotifications: 'Browsermeldingen',
+    browserNotificationsEnable: 'Inschakelen',
+    browserNotificationsOn: 'Aan (zolang dit tabblad open is)',
+    browserNotificationsBlocked: 'Geblokkeerd in de browser',
+    tags: 'Tags',
+    tagsManage: (n: number) => `Beheren (${n})`,
+    tagsEmpty: 'Nog geen tags. Voeg er hieronder een toe, bv. Familie of Werk.',
+    tagAdd: 'Nieuwe tag…',
+    gifts: 'Cadeaus',
+    giftsTitle: (name: string) => `Cadeaus voor ${name}`,
+    notes: 'Notities',
+    giftIdeas: 'Ideeën',
+    giftIdeasEmpty: 'Nog geen ideeën.',
+    giftHistory: 'Eerder gegeven',
+    giftHistoryEmpty: 'Nog niets vastgelegd.',
+    giftMarkGiven: 'Gegeven',
+    giftGivenBy: (by: string) => `van ${by}`,
+    giftAdd: 'Cadeau toevoegen',
+    giftTitle: 'Wat?',
+    giftPrice: 'Prijs',
+    giftBy: 'Van wie? (bij gegeven)',
+    giftUrl: 'Link (optioneel)',
+    giftSaveIdea: 'Als idee',
+    giftSaveGiven: 'Dit jaar gegeven',
+    exportGifts: 'Cadeaus (CSV)',
+    giftsExportDialog: 'Cadeaus exporteren',
+    photoPick: 'Foto kiezen',
+    photoChange: 'Andere foto',
+    photoRemove: 'Foto weghalen',
+    notificationPhotos: 'Foto in meldingen',
+    tagMuted: 'Geen meldingen',
+    tagDeleteTitle: 'Tag verwijderen?',
+    tagDeleteMsg: (name: string) => `#${name} wordt bij iedereen weggehaald.`,
+    importPreviewTitle: 'Importeren',
+    importPreviewSummary: (n: number, u: number) => `${n} nieuw, ${u} bijgewerkt`,
+    importSkipped: (n: number) => `Overgeslagen (${n})`,
+    importConfirm: 'Importeren',
+    importDone: (n: number) => `${n} geïmporteerd`,
+    importNothing: 'Niets gevonden om te importeren.',
+    importUpdates: 'bijgewerkt',
+    skipNoName: 'geen naam',
+    skipNoDate: 'geen verjaardag of trouwdag',
+    skipBadDate: 'onleesbare datum',
+    skipBadType: 'onbekend type',
+    skipIdExists: 'id bestaat al',
+    automationBadUrl: 'Ongeldige link (alleen http of https)',
+    automationFetchFailed: 'Bestand ophalen mislukt',
+    automationInvalid: 'Deze link bevat niets om uit te voeren',
+    automationResults: (n: number) => `${n} gevonden`,
+    automationShareTitle: 'Gegevens delen?',
+    automationShareMsg: (n: number, to: string) => `${n} personen doorgeven aan ${to}`,
+    automationShare: 'Delen',
+    skipNotYearly: 'herhaalt niet jaarlijks',
+    skipCancelled: 'geannuleerd',
     shareBirthdayToday: 'Van harte gefeliciteerd met je verjaardag🎂🥳🎈!!',
     shareAnniversaryToday: (yrs: number) => `Van harte met jullie ${yrs} jarig huwelijk🎂🥳🎈!!`,
+    shareAnniversaryTodayNoYears: 'Van harte gefeliciteerd met jullie trouwdag🎂🥳🎈!!',
     weeklyTitle: 'Overzicht jubilea komende week 🎈',
-    whatsappSend: 'WhatsApp-bericht sturen',
+    greetSubject: (name: string) => `Gefeliciteerd, ${name}!`,
+    greetWho: 'Wie wil je feliciteren?',
+    todayPeople: 'Vandaag jarig of te vieren',
+    back: 'Terug',
+    detailNotFound: 'Persoon niet gevonden',
+    detailInDays: (n: number) => (n === 1 ? 'morgen' : `over ${n} dagen`),
+    calendar: 'Kalender',
+    calendarMonth: 'Maand',
+    calendarAgenda: 'Agenda',
+    calendarPrev: 'Vorige maand',
+    calendarNext: 'Volgende maand',
+    calendarThisMonth: 'Vandaag',
+    calendarPickDay: 'Tik op een dag om te zien wie er iets te vieren heeft.',
+    calendarNoneOnDay: 'Niemand op deze dag.',
+    calendarNoneInMonth: 'Niets deze maand.',
+    stats: 'Overzicht',
+    statsTotals: (contacts: number, events: number) => `${contacts} contacten, ${events} gebeurtenissen`,
+    statsPerMonth: 'Gebeurtenissen per maand',
+    statsBusiestWeek: 'Drukste week (komend jaar)',
+    statsBusiestWeekText: (week: number, range: string, n: number) => `Week ${week} (${range}): ${n} ${n === 1 ? 'gebeurtenis' : 'gebeurtenissen'}`,
+    statsMilestones: 'Ronde getallen (komend jaar)',
+    statsNoMilestones: 'Geen ronde getallen in het komende jaar.',
+    statsAgeDistribution: 'Leeftijdsverdeling',
+    statsNoAges: 'Nog geen verjaardagen met geboortejaar.',
+    statsRemindersOff: 'Zonder herinnering',
+    statsNoBirthYear: 'Zonder geboortejaar',
+    statsNoEvents: 'Nog geen gebeurtenissen.',
+    detailGreet: 'Feliciteren',
+    congratulatedDone: '✓ Gefeliciteerd',
+    congratulatedPending: 'Nog feliciteren',
+    congratulatedToggle: 'Markeren als gefeliciteerd',
+    congratulatedHistory: 'Gefeliciteerd in',
+    congratulatedNever: 'Nog niet bijgehouden',
+    greetings: 'Felicitatieteksten',
+    greetingLabel: 'Felicitatietekst',
+    greetingPick: 'Kiezen',
+    greetingsManage: (n: number) => `Bewerken (${n})`,
+    greetingRotate: 'Elk jaar de volgende',
+    greetingRandom: 'Willekeurig',
+    greetingAdd: '+ Tekst',
+    greetingHint: 'Gebruik {name}, {age}, {years} en {label}. Teksten met {age} of {years} worden overgeslagen als het jaar onbekend is.',
+    greetVia: (name: string) => `${name} feliciteren via…`,
+    greetViaHint: 'Je keuze wordt onthouden; wijzigen kan bij Bewerken.',
+    greetWhatsApp: 'WhatsApp',
+    greetSms: 'SMS',
+    greetEmail: 'E-mail',
+    greetShare: 'Delen…',
+    greetAsk: 'Elke keer vragen',
+    greetChannelLabel: 'Feliciteren via',
+    phoneLabel: 'Telefoon',
+    phoneLocalHint: 'Voor WhatsApp is een internationaal nummer nodig (+31…); nu wordt het SMS.',
+    emailLabel: 'E-mail',
   },
   en: {
     title: 'My Birthday Tracker',
@@ -232,13 +411,21 @@ const STR: Record<Locale, Record<string, any>> = {
     time: 'Time weekly summary',
     daytime: 'Time daily notification',
     language: 'Language',
+    leapDay: 'Feb 29 in common years',
+    leapFeb28: 'Feb 28',
+    leapMar1: 'Mar 1',
     nl: 'NL',
     en: 'EN',
     nameLabel: 'Name',
     typeLabel: 'Type',
     labelLabel: 'Label (other)',
     dateLabel: 'Date',
+    yearUnknown: 'Year unknown',
     sameDay: 'Same-day reminder',
+    customTime: 'Custom reminder time',
+    leadDays: 'Remind me before',
+    leadDaysDefault: 'Default',
+    leadDaysShort: (n: number) => `${n}d`,
     save: 'Save',
     cancel: 'Cancel',
     close: 'Close',
@@ -247,6 +434,11 @@ const STR: Record<Locale, Record<string, any>> = {
     share: 'Share',
     confirmDeleteTitle: 'Delete',
     confirmDeleteMsg: (name: string) => `Are you sure you want to delete ${name}?`,
+    confirmDeleteEventMsg: (name: string, what: string) => `Are you sure you want to delete the ${what} of ${name}?`,
+    events: 'Events',
+    eventAdd: '+ Add',
+    eventRemove: 'Remove this event',
+    eventLabel: 'Whose? (optional)',
     aboutApp: 'About this app',
     aboutAppText:
       'My Birthday Tracker: Always remember every special day.\n\nThis app helps you track birthdays, anniversaries and other special events. You can instantly create a WhatsApp message from the app. The app is simple and basic without unnecessary features and does exactly what it should: remind you of that one special day of someone else.\n\nNo worries—your data never leaves your phone 📱. It stays local, private, and just for you. We couldn’t share it with anyone else—even if we wanted to (and we don’t)!\n\nTips: enable notifications, make regular backups (export).',
@@ -266,28 +458,225 @@ const STR: Record<Locale, Record<string, any>> = {
     csvExportDialog: 'Export CSV',
     csvImported: 'CSV imported',
     csvHeaderInvalid: 'CSV header invalid',
+    exportTitle: 'Export',
+    exportCsv: 'CSV (spreadsheet)',
+    exportVCard: 'vCard (contacts)',
+    vcardExportDialog: 'Export vCard',
+    exportICS: 'iCalendar (calendar)',
+    icsExportDialog: 'Export calendar',
+    exportBackup: 'Full backup (JSON)',
+    backupExportDialog: 'Export backup',
+    restoreTitle: 'Restore backup',
+    restoreSummary: (date: string, n: number, withSettings: boolean) =>
+      `Backup from ${date}\n${n} people${withSettings ? ', including settings' : ''}.\n\nReplace overwrites your current people and settings; merge adds the people and keeps your settings.`,
+    restoreMerge: 'Merge',
+    restoreReplace: 'Replace',
+    restoreDone: 'Backup restored',
+    backupInvalid: 'This is not a valid backup file',
+    backupTooNew: 'This backup was made by a newer version of the app',
+    migrationFailedTitle: 'Your data could not be loaded',
+    migrationFailed: (code: string) =>
+      `Upgrading your stored data failed (${code}). Nothing was changed or deleted. Export a recovery file and contact us.`,
+    migrationTooNew: 'Your data was saved by a newer version of the app. Please update the app; nothing was changed or deleted.',
+    migrationExport: 'Export recovery file',
+    migrationDroppedTitle: 'Not everything could be updated',
+    migrationDropped: (n: number) =>
+      `${n} ${n === 1 ? 'event had an unreadable date and was' : 'events had an unreadable date and were'} not carried over. Export a recovery file to get ${n === 1 ? 'it' : 'them'} back.`,
+    browserNotifications: 'Browser notifications',
+    browserNotificationsEnable: 'Enable',
+    browserNotificationsOn: 'On (while this tab is open)',
+    browserNotificationsBlocked: 'Blocked by the browser',
+    tags: 'Tags',
+    tagsManage: (n: number) => `Manage (${n})`,
+    tagsEmpty: 'No tags yet. Add one below, e.g. Family or Work.',
+    tagAdd: 'New tag…',
+    gifts: 'Gifts',
+    giftsTitle: (name: string) => `Gifts for ${name}`,
+    notes: 'Notes',
+    giftIdeas: 'Ideas',
+    giftIdeasEmpty: 'No ideas yet.',
+    giftHistory: 'Given before',
+    giftHistoryEmpty: 'Nothing recorded yet.',
+    giftMarkGiven: 'Given',
+    giftGivenBy: (by: string) => `from ${by}`,
+    giftAdd: 'Add gift',
+    giftTitle: 'What?',
+    giftPrice: 'Price',
+    giftBy: 'From whom? (when given)',
+    giftUrl: 'Link (optional)',
+    giftSaveIdea: 'As idea',
+    giftSaveGiven: 'Given this year',
+    exportGifts: 'Gifts (CSV)',
+    giftsExportDialog: 'Export gifts',
+    photoPick: 'Choose photo',
+    photoChange: 'Change photo',
+    photoRemove: 'Remove photo',
+    notificationPhotos: 'Photo in notifications',
+    tagMuted: 'Mute notifications',
+    tagDeleteTitle: 'Delete tag?',
+    tagDeleteMsg: (name: string) => `#${name} will be removed from everyone.`,
+    importPreviewTitle: 'Import',
+    importPreviewSummary: (n: number, u: number) => `${n} new, ${u} updated`,
+    importSkipped: (n: number) => `Skipped (${n})`,
+    importConfirm: 'Import',
+    importDone: (n: number) => `${n} imported`,
+    importNothing: 'Nothing found to import.',
+    importUpdates: 'updated',
+    skipNoName: 'no name',
+    skipNoDate: 'no birthday or anniversary',
+    skipBadDate: 'unreadable date',
+    skipBadType: 'unknown type',
+    skipIdExists: 'id already exists',
+    automationBadUrl: 'Invalid link (http or https only)',
+    automationFetchFailed: 'Could not download the file',
+    automationInvalid: 'This link contains nothing to do',
+    automationResults: (n: number) => `${n} found`,
+    automationShareTitle: 'Share data?',
+    automationShareMsg: (n: number, to: string) => `Pass ${n} people to ${to}`,
+    automationShare: 'Share',
+    skipNotYearly: 'does not repeat yearly',
+    skipCancelled: 'cancelled',
     shareBirthdayToday: 'Happy birthday🎂🥳🎈!!',
     shareAnniversaryToday: (yrs: number) => `Congrats on your ${yrs}-year wedding anniversary🎂🥳🎈!!`,
+    shareAnniversaryTodayNoYears: 'Congrats on your wedding anniversary🎂🥳🎈!!',
     weeklyTitle: 'Celebrations for this week 🎈',
-    whatsappSend: 'Send WhatsApp message',
+    greetSubject: (name: string) => `Congratulations, ${name}!`,
+    greetWho: 'Who do you want to congratulate?',
+    todayPeople: 'Celebrating today',
+    back: 'Back',
+    detailNotFound: 'Person not found',
+    detailInDays: (n: number) => (n === 1 ? 'tomorrow' : `in ${n} days`),
+    calendar: 'Calendar',
+    calendarMonth: 'Month',
+    calendarAgenda: 'Agenda',
+    calendarPrev: 'Previous month',
+    calendarNext: 'Next month',
+    calendarThisMonth: 'Today',
+    calendarPickDay: 'Tap a day to see who is celebrating.',
+    calendarNoneOnDay: 'Nobody on this day.',
+    calendarNoneInMonth: 'Nothing this month.',
+    stats: 'Overview',
+    statsTotals: (contacts: number, events: number) => `${contacts} contacts, ${events} events`,
+    statsPerMonth: 'Events per month',
+    statsBusiestWeek: 'Busiest week (next year)',
+    statsBusiestWeekText: (week: number, range: string, n: number) => `Week ${week} (${range}): ${n} ${n === 1 ? 'event' : 'events'}`,
+    statsMilestones: 'Round numbers (next year)',
+    statsNoMilestones: 'No round numbers in the coming year.',
+    statsAgeDistribution: 'Age distribution',
+    statsNoAges: 'No birthdays with a birth year yet.',
+    statsRemindersOff: 'Without reminders',
+    statsNoBirthYear: 'Without birth year',
+    statsNoEvents: 'No events yet.',
+    detailGreet: 'Congratulate',
+    congratulatedDone: '✓ Congratulated',
+    congratulatedPending: 'Still to congratulate',
+    congratulatedToggle: 'Mark as congratulated',
+    congratulatedHistory: 'Congratulated in',
+    congratulatedNever: 'Not tracked yet',
+    greetings: 'Greeting messages',
+    greetingLabel: 'Greeting message',
+    greetingPick: 'Choose',
+    greetingsManage: (n: number) => `Edit (${n})`,
+    greetingRotate: 'Next one each year',
+    greetingRandom: 'Random',
+    greetingAdd: '+ Message',
+    greetingHint: 'Use {name}, {age}, {years} and {label}. Messages with {age} or {years} are skipped when the year is unknown.',
+    greetVia: (name: string) => `Congratulate ${name} via…`,
+    greetViaHint: 'Your choice is remembered; change it under Edit.',
+    greetWhatsApp: 'WhatsApp',
+    greetSms: 'SMS',
+    greetEmail: 'Email',
+    greetShare: 'Share…',
+    greetAsk: 'Ask every time',
+    greetChannelLabel: 'Congratulate via',
+    phoneLabel: 'Phone',
+    phoneLocalHint: 'WhatsApp needs an international number (+1…); SMS will be used instead.',
+    emailLabel: 'Email',
   },
 };
-const t = (L: Locale, k: string, ...a: any[]) =>
+export const t = (L: Locale, k: string, ...a: any[]) =>
   (typeof STR[L][k] === 'function' ? STR[L][k](...a) : STR[L][k]) ?? k;
 
-const WEEKDAY_ABBR: Record<Locale, string[]> = {
+// Keuzes voor herinneringen vooraf (dagen voor de gebeurtenis)
+const LEAD_DAY_OPTIONS = [1, 3, 7, 14] as const;
+
+export const WEEKDAY_ABBR: Record<Locale, string[]> = {
   nl: ['Ma', 'Di', 'Wo', 'Do', 'Vr', 'Za', 'Zo'],
   en: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
 };
 
 // ============== Storage Keys ==============
-const K_PEOPLE = 'people.v5';
+const K_CONTACTS = 'contacts.v6';
 const K_SETTINGS = 'settings.v5';
-const K_WEEKLY_ID = 'weekly_notif_id';
-const K_PERSON_IDS = 'person_notif_ids'; // map personId->notifId
 
 const appVersion = Application?.nativeApplicationVersion ?? '1.0.0';
 
+// Startset; daarna volledig aan te passen in Instellingen → Felicitatieteksten
+const DEFAULT_GREETINGS: GreetingTemplate[] = [
+  { id: 'default-nl-birthday', type: 'birthday', locale: 'nl', text: 'Van harte gefeliciteerd met je verjaardag🎂🥳🎈!!' },
+  { id: 'default-nl-birthday-age', type: 'birthday', locale: 'nl', text: 'Gefeliciteerd met je {age}e verjaardag, {name}! 🎉' },
+  { id: 'default-nl-anniversary', type: 'anniversary', locale: 'nl', text: 'Van harte met jullie {years} jarig huwelijk🎂🥳🎈!!' },
+  { id: 'default-en-birthday', type: 'birthday', locale: 'en', text: 'Happy birthday🎂🥳🎈!!' },
+  { id: 'default-en-birthday-name', type: 'birthday', locale: 'en', text: 'Happy birthday, {name}! Have a wonderful day 🎉' },
+  { id: 'default-en-anniversary', type: 'anniversary', locale: 'en', text: 'Congrats on your {years}-year wedding anniversary🎂🥳🎈!!' },
+];
+
+const DEFAULT_SETTINGS: Settings = {
+  weeklySummaryEnabled: true,
+  weeklySummaryWeekday: 1,
+  weeklySummaryHour: 9,
+  weeklySummaryMinute: 0,
+  sameDayHour: 9,
+  sameDayMinute: 0,
+  locale: 'en',
+  search: '',
+  filterType: 'all',
+  sortMode: 'next',
+  themeMode: 'system',
+  leapDayPolicy: 'mar1',
+  defaultLeadDays: [],
+  tags: [],
+  filterTag: null,
+  notificationPhotos: false,
+  greetingTemplates: DEFAULT_GREETINGS,
+  greetingPick: 'rotate',
+};
+
+// Achtergrond-task die de meldingen aanvult als de app lang niet geopend wordt;
+// leest dezelfde opslag als de UI, maar zonder React-state
+defineNotificationTopUpTask(async () => {
+  const res = await migrateStorage(storageIO, appVersion);
+  if (res.status === 'failed') return null;
+  const contacts = res.data[K_CONTACTS] as Contact[] | undefined;
+  const st = res.data[K_SETTINGS] as Partial<Settings> | undefined;
+  if (!contacts) return null;
+  return { people: flattenContacts(contacts), settings: { ...DEFAULT_SETTINGS, ...st } };
+});
+
+// Gedeeld met person/[id].tsx; index.tsx laadt en bewaart, andere schermen lezen mee
+export const contactsStore = createSharedState<Contact[]>([]);
+export const settingsStore = createSharedState<Settings>(DEFAULT_SETTINGS);
+// Pas true als de opslag gelezen (en zo nodig gemigreerd) is; daarvóór niets wegschrijven
+export const loadedStore = createSharedState(false);
+
+// Acties uit een melding: draait de UI, dan via de state (anders overschrijft die de opslag weer);
+// anders (Android-achtergrond) rechtstreeks in de opslag
+let liveActionHandlers: NotificationActionHandlers | null = null;
+const storageActionHandlers: NotificationActionHandlers = {
+  async markDone(eventIds, year) {
+    const res = await migrateStorage(storageIO, appVersion);
+    if (res.status === 'failed') return;
+    const contacts = res.data[K_CONTACTS] as Contact[] | undefined;
+    if (!contacts) return;
+    setJSON(K_CONTACTS, markCongratulated(contacts, eventIds, year));
+    await flushStorage();
+  },
+  // Openen de app altijd, dus komen via de listener binnen
+  open() {},
+  sendGreeting() {},
+};
+defineNotificationActionTask(() => liveActionHandlers ?? storageActionHandlers);
+
 // ============== Theme Palette ==============
 const THEME = {
   dark: {
@@ -316,6 +705,9 @@ const THEME = {
     placeholder: '#94a3b8',
     highlightTodayBg: 'rgba(37,211,102,0.08)',
     highlightTodayBorder: 'rgba(37,211,102,0.35)',
+    eventBirthday: '#22c55e',
+    eventAnniversary: '#f472b6',
+    eventOther: '#60a5fa',
     switchTrackOff: 'rgba(255,255,255,0.15)',
     switchTrackOn: 'rgba(34,197,94,0.55)',
     switchDot: '#FFFFFF',
@@ -347,6 +739,9 @@ const THEME = {
     placeholder: '#94a3b8',
     highlightTodayBg: 'rgba(34,197,94,0.10)',
     highlightTodayBorder: 'rgba(34,197,94,0.40)',
+    eventBirthday: '#16a34a',
+    eventAnniversary: '#db2777',
+    eventOther: '#2563eb',
     switchTrackOff: '#e5e7eb',
     switchTrackOn: '#22c55e',
     switchDot: '#FFFFFF',
@@ -354,7 +749,20 @@ const THEME = {
   },
 } as const;
 
-type ThemeColors = typeof THEME.dark;
+export type ThemeColors = typeof THEME.dark;
+
+// Kleur per soort gebeurtenis: stippen in de kalender, staven en legenda in het overzicht
+export const eventColor = (C: ThemeColors, type: EventType) =>
+  type === 'birthday' ? C.eventBirthday : type === 'anniversary' ? C.eventAnniversary : C.eventOther;
+
+// Kleuren + styles volgens de thema-instelling (systeem/donker/licht)
+export function useAppTheme(themeMode: Settings['themeMode']) {
+  const scheme = useColorScheme();
+  const effectiveTheme: 'light' | 'dark' = themeMode === 'system' ? (scheme === 'light' ? 'light' : 'dark') : themeMode;
+  const C = useMemo<ThemeColors>(() => THEME[effectiveTheme] as ThemeColors, [effectiveTheme]);
+  const styles = useMemo(() => createStyles(C), [C]);
+  return { effectiveTheme, C, styles };
+}
 
 type PersonRowProps = {
   p: Person;
@@ -362,10 +770,161 @@ type PersonRowProps = {
   showShareTodayBirthday?: boolean;
   onEdit: (p: Person) => void;   // ← was () => void
   onDelete: (p: Person) => void; // ← was () => void
+  onGifts: (p: Person) => void;
+  onGreetChannel: (p: Person, channel: GreetChannel) => void;
+  onToggleDone: (p: Person) => void;
+  greetings: GreetingTemplate[];
+  greetingPick: Settings['greetingPick'];
+  leapDay: LeapDayPolicy;
 };
 
 
 // ============== Helpers ==============
+// Alert.alert doet niets op web (react-native-web); daar vallen we terug op alert/confirm
+type AlertButton = { text: string; style?: 'default' | 'cancel' | 'destructive'; onPress?: () => void };
+export function showAlert(title: string, message?: string, buttons?: AlertButton[]) {
+  if (Platform.OS !== 'web') {
+    Alert.alert(title, message, buttons);
+    return;
+  }
+  const text = message ? `${title}\n\n${message}` : title;
+  const actions = (buttons ?? []).filter(b => b.style !== 'cancel');
+  if (actions.length === 0) {
+    window.alert(text);
+    buttons?.[0]?.onPress?.();
+    return;
+  }
+  // Eén vraag per actie; de eerste die bevestigd wordt, wint
+  for (const b of actions) {
+    const ok = window.confirm(actions.length === 1 ? text : `${text}\n\n→ ${b.text}?`);
+    if (ok) {
+      b.onPress?.();
+      return;
+    }
+  }
+  buttons?.find(b => b.style === 'cancel')?.onPress?.();
+}
+
+// Zet een dag aan/uit in een leadDays-lijst (gesorteerd, zonder dubbelen)
+function toggleLeadDay(days: number[], n: number) {
+  return days.includes(n) ? days.filter(x => x !== n) : [...days, n].sort((a, b) => a - b);
+}
+
+// Contacten → één Person-regel per gebeurtenis
+export function flattenContacts(contacts: Contact[]): Person[] {
+  return contacts.flatMap(c => c.events.map(ev => ({
+    ...ev,
+    contactId: c.id,
+    name: c.name,
+    tags: c.tags,
+    photoUri: avatarUri(c.photo),
+    notes: c.notes,
+    giftIdeas: c.gifts?.filter(g => g.year === undefined).length || undefined,
+    phone: c.phone,
+    email: c.email,
+    greetChannel: c.greetChannel,
+  })));
+}
+
+function eventOf(p: Person): PersonEvent {
+  const { contactId, name, tags, photoUri, notes, giftIdeas, phone, email, greetChannel, ...ev } = p;
+  return ev;
+}
+
+// Alleen de velden die echt een waarde hebben, zodat spreiden niets met undefined overschrijft
+function definedFieldsOf<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// Geïmporteerde regels verwerken: bekende gebeurtenis-id → bijwerken; anders erbij bij het
+// contact met dezelfde contact-id (tenzij die datum er al staat); anders een nieuw contact.
+// Niet op naam: twee mensen kunnen dezelfde naam hebben.
+function mergeIntoContacts(contacts: Contact[], rows: Person[]): Contact[] {
+  const out = contacts.map(c => ({ ...c, events: c.events.slice() }));
+  for (const row of rows) {
+    const ev = eventOf(row);
+    const owner = out.find(c => c.events.some(e => e.id === row.id));
+    if (owner) {
+      // Velden die de exportformaten niet kennen (leadDays, eigen tijd, felicitaties…) blijven staan
+      owner.events = owner.events.map(e => (e.id === row.id ? { ...e, ...definedFieldsOf(ev) } : e));
+      owner.name = row.name;
+      if (row.tags) owner.tags = row.tags;
+      owner.phone ??= row.phone;
+      owner.email ??= row.email;
+      continue;
+    }
+    const c = row.contactId ? out.find(x => x.id === row.contactId) : undefined;
+    if (!c) {
+      out.push({ id: row.contactId ?? uuid(), name: row.name, tags: row.tags, phone: row.phone, email: row.email, events: [ev] });
+      continue;
+    }
+    // Contactgegevens uit een import vullen aan, maar overschrijven niet
+    c.phone ??= row.phone;
+    c.email ??= row.email;
+    if (c.events.some(e => e.type === ev.type && e.dateISO === ev.dateISO)) continue;
+    c.events.push(ev);
+    if (row.tags) c.tags = Array.from(new Set([...(c.tags ?? []), ...row.tags]));
+  }
+  return out;
+}
+
+const newEvent = (): PersonEvent => ({ id: uuid(), type: 'birthday', dateISO: toISODateLocal(new Date()), sameDayReminder: true });
+
+// Vinkje bij één gebeurtenis voor één jaar aan/uit
+export function toggleCongratulated(contacts: Contact[], eventId: string, year: number): Contact[] {
+  return contacts.map(c => (!c.events.some(ev => ev.id === eventId) ? c : {
+    ...c,
+    events: c.events.map(ev => {
+      if (ev.id !== eventId) return ev;
+      const years = ev.congratulated ?? [];
+      const next = years.includes(year) ? years.filter(y => y !== year) : [...years, year].sort((a, b) => a - b);
+      return { ...ev, congratulated: next.length ? next : undefined };
+    }),
+  }));
+}
+
+// Gebeurtenissen als gefeliciteerd markeren (zet aan, nooit uit; vanuit een melding)
+function markCongratulated(contacts: Contact[], eventIds: string[], year: number): Contact[] {
+  return contacts.map(c => (!c.events.some(ev => eventIds.includes(ev.id)) ? c : {
+    ...c,
+    events: c.events.map(ev => (
+      !eventIds.includes(ev.id) || ev.congratulated?.includes(year)
+        ? ev
+        : { ...ev, congratulated: [...(ev.congratulated ?? []), year].sort((a, b) => a - b) }
+    )),
+  }));
+}
+
+// Alles waarop gezocht kan worden: naam, notities en cadeaus
+function searchTextOf(c: Contact) {
+  return [c.name, c.notes, ...(c.gifts ?? []).flatMap(g => [g.title, g.givenBy])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+}
+
+// "12,50" en "12.50" → 12.5; leeg of onleesbaar → undefined
+function parsePrice(raw: string) {
+  const n = Number(raw.trim().replace(',', '.'));
+  return raw.trim() && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+// Tagnamen komen in CSV-cellen (';'-gescheiden), dus die tekens laten we weg
+function normalizeTagName(raw: string) {
+  return raw.replace(/[;,|]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+function toggleTag(tags: string[] | undefined, name: string) {
+  const list = tags ?? [];
+  const next = list.includes(name) ? list.filter(x => x !== name) : [...list, name];
+  return next.length ? next : undefined;
+}
+// Tag-instellingen bijwerken (of de tag aanmaken als die alleen bij personen bestond)
+function updateTag(tags: Tag[], name: string, patch: Partial<Tag>) {
+  return tags.some(tag => tag.name === name)
+    ? tags.map(tag => (tag.name === name ? { ...tag, ...patch } : tag))
+    : [...tags, { name, ...patch }];
+}
+
 const uuid = () =>
   'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
     const r = (Math.random() * 16) | 0;
@@ -373,41 +932,75 @@ const uuid = () =>
     return v.toString(16);
   });
 
+// Jaarloze datums ('--MM-DD', zoals in ISO 8601/vCard) tonen we in pickers in een schrikkeljaar,
+// zodat 29 februari gewoon kiesbaar blijft
+const NO_YEAR_PICKER_YEAR = 2000;
+
 const ymdToDate = (iso: string) => {
-  const [y, m, d] = iso.split('-').map(Number);
-  return new Date(y, (m ?? 1) - 1, d ?? 1);
+  const { y, m, d } = parseYmd(iso);
+  return new Date(y ?? NO_YEAR_PICKER_YEAR, (m ?? 1) - 1, d ?? 1);
 };
 
-// Parse zonder Date (voorkomt pre-1970 verschuivingen)
-function parseYmd(iso: string) {
+// Parse zonder Date (voorkomt pre-1970 verschuivingen); y is undefined bij '--MM-DD'
+function parseYmd(iso: string): { y?: number; m: number; d: number } {
+  if (iso.startsWith('--')) {
+    const [m, d] = iso.slice(2).split('-').map(Number);
+    return { y: undefined, m, d };
+  }
   const [y, m, d] = iso.split('-').map(Number);
   return { y, m, d };
 }
 
+function hasYear(iso: string) {
+  return parseYmd(iso).y !== undefined;
+}
+
+function toYearlessISO(iso: string) {
+  const { m, d } = parseYmd(iso);
+  return `--${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
 // Voor pickers: lokale datum op 12:00 om DST-midnight issues te vermijden
 function ymdToLocalNoonDate(iso: string) {
   const { y, m, d } = parseYmd(iso);
-  return new Date(y, (m ?? 1) - 1, d ?? 1, 12, 0, 0, 0);
+  return new Date(y ?? NO_YEAR_PICKER_YEAR, (m ?? 1) - 1, d ?? 1, 12, 0, 0, 0);
 }
 
-function ageOn(iso: string, at: Date) {
-  const { y, m, d } = parseYmd(iso);
+const isLeapYear = (y: number) => (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+
+// De dag (12:00) waarop de datum in `year` gevierd wordt. new Date(y, 1, 29) rolt in gewone
+// jaren stilletjes door naar 1 maart, dus 29 februari lossen we expliciet op via de policy.
+function occurrenceInYear(iso: string, year: number, leapDay: LeapDayPolicy) {
+  const { m, d } = parseYmd(iso);
+  if (m === 2 && d === 29 && !isLeapYear(year)) {
+    return leapDay === 'feb28'
+      ? new Date(year, 1, 28, 12, 0, 0, 0)
+      : new Date(year, 2, 1, 12, 0, 0, 0);
+  }
+  return new Date(year, (m ?? 1) - 1, d ?? 1, 12, 0, 0, 0);
+}
+
+// null als het jaar onbekend is: dan tonen we geen leeftijd
+export function ageOn(iso: string, at: Date, leapDay: LeapDayPolicy): number | null {
+  const { y } = parseYmd(iso);
+  if (y === undefined) return null;
   let age = at.getFullYear() - y;
+  const occ = occurrenceInYear(iso, at.getFullYear(), leapDay);
   const hadBirthday =
-    (at.getMonth() + 1 > m) || ((at.getMonth() + 1 === m) && (at.getDate() >= d));
+    (at.getMonth() > occ.getMonth()) || ((at.getMonth() === occ.getMonth()) && (at.getDate() >= occ.getDate()));
   if (!hadBirthday) age--;
   return Math.max(0, age);
 }
 
-function nextOccurrence(iso: string, ref = new Date()) {
-  const { m, d } = parseYmd(iso);
-  const thisYear = new Date(ref.getFullYear(), (m ?? 1) - 1, d ?? 1, 12, 0, 0, 0);
+export function nextOccurrence(iso: string, ref: Date, leapDay: LeapDayPolicy) {
+  const thisYear = occurrenceInYear(iso, ref.getFullYear(), leapDay);
   return thisYear >= startOfDay(ref)
     ? thisYear
-    : new Date(ref.getFullYear() + 1, (m ?? 1) - 1, d ?? 1, 12, 0, 0, 0);
+    : occurrenceInYear(iso, ref.getFullYear() + 1, leapDay);
 }
 
-function agePhrase(L: Locale, yrs: number, mode: 'upcoming'|'current', type: EventType) {
+export function agePhrase(L: Locale, yrs: number | null, mode: 'upcoming'|'current', type: EventType) {
+  if (yrs === null) return null;
   if (type === 'birthday') {
     if (L === 'nl') return mode === 'upcoming' ? `wordt ${yrs} jaar` : `is ${yrs} jaar`;
     return mode === 'upcoming' ? `turns ${yrs}` : `is ${yrs} years`;
@@ -424,9 +1017,10 @@ export function formatDM_localized(iso: string, L: Locale) {
   return new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'long', timeZone: 'UTC' }).format(fake);
 }
 
-// "25 augustus 1961" / "August 25, 1961"
+// "25 augustus 1961" / "August 25, 1961" (zonder jaar als dat onbekend is)
 export function formatDMY_localized(iso: string, L: Locale) {
   const { y, m, d } = parseYmd(iso);
+  if (y === undefined) return formatDM_localized(iso, L);
   const locale = L === 'nl' ? 'nl-NL' : 'en-US';
   const fake = new Date(Date.UTC(2000, (m ?? 1) - 1, d ?? 1));
   const month = new Intl.DateTimeFormat(locale, { month: 'long', timeZone: 'UTC' }).format(fake);
@@ -451,6 +1045,7 @@ function firstFutureFireFor(iso: string, hour: number, minute: number, now = new
 // ============== Debugger function ==============
 
 async function debugScheduledNotifications() {
+  if (Platform.OS === 'web') return;
   try {
     const scheduled = await Notifications.getAllScheduledNotificationsAsync();
     console.log('[DEBUG] Aantal geplande notificaties:', scheduled.length);
@@ -472,15 +1067,26 @@ async function debugScheduledNotifications() {
 }
 
 // ============== CSV ==============
-const CSV_HEADER = 'id,name,type,dateISO,label,sameDayReminder';
+const CSV_HEADER = 'id,name,type,dateISO,label,sameDayReminder,tags,contactId';
+// Oudere exports (zonder tags en/of contactId) blijven importeerbaar
+const CSV_HEADERS_OLD = ['id,name,type,dateISO,label,sameDayReminder', 'id,name,type,dateISO,label,sameDayReminder,tags'];
 const csvEsc = (s?: string) =>
   `"${(s ?? '').toString().replace(/"/g, '""')}"`;
 function toCSVRow(p: Person) {
-  return [p.id, csvEsc(p.name), p.type, p.dateISO, csvEsc(p.label), p.sameDayReminder ? 'true' : 'false'].join(',');
+  return [p.id, csvEsc(p.name), p.type, p.dateISO, csvEsc(p.label), p.sameDayReminder ? 'true' : 'false', csvEsc(p.tags?.join(';')), p.contactId ?? ''].join(',');
+}
+// Cadeaus als eigen CSV: één regel per cadeau, handig in een spreadsheet
+const GIFTS_CSV_HEADER = 'contactId,name,status,year,title,price,url,givenBy';
+function toGiftsCSV(contacts: Contact[]) {
+  const rows = contacts.flatMap(c => (c.gifts ?? []).map(g => [
+    c.id, csvEsc(c.name), g.year === undefined ? 'idea' : 'given', g.year ?? '', csvEsc(g.title),
+    g.price ?? '', csvEsc(g.url), csvEsc(g.givenBy),
+  ].join(',')));
+  return [GIFTS_CSV_HEADER, ...rows].join('\n');
 }
 function parseCSV(text: string): Person[] {
   const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
-  if (!lines.length || lines[0].trim() !== CSV_HEADER) throw new Error('BAD_HEADER');
+  if (!lines.length || ![CSV_HEADER, ...CSV_HEADERS_OLD].includes(lines[0].trim())) throw new Error('BAD_HEADER');
   const out: Person[] = [];
   for (let i = 1; i < lines.length; i++) {
     const cols: string[] = [];
@@ -499,20 +1105,68 @@ function parseCSV(text: string): Person[] {
       }
     }
     cols.push(cur);
-    const [id, name, type, dateISO, label, sameDayReminder] = cols;
+    const [id, name, type, rawDate, label, sameDayReminder, rawTags, contactId] = cols;
+    const dateISO = rawDate ? normalizeDateISO(rawDate) : null;
     if (!name || !dateISO) continue;
+    const tags = Array.from(new Set((rawTags ?? '').split(';').map(normalizeTagName).filter(Boolean)));
     out.push({
       id: id || uuid(),
+      contactId: contactId || undefined,
       name,
       type: (['birthday', 'anniversary', 'other'].includes(type) ? (type as EventType) : 'other'),
       dateISO,
       label,
       sameDayReminder: sameDayReminder === 'true' || sameDayReminder === '1',
+      tags: tags.length ? tags : undefined,
     });
   }
   return out;
 }
 
+// ============== Files ==============
+// Schrijf naar de cache en open het deel-menu (mail, Drive, Bestanden, …); op web een download
+async function shareTextFile(filename: string, content: string, opts: { mimeType: string; UTI?: string; dialogTitle: string }) {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: `${opts.mimeType};charset=utf-8` }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return;
+  }
+  const uri = FileSystem.cacheDirectory! + filename;
+  await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, opts);
+}
+
+// Alles wat onImport herkent; op web helpen de extensies als de browser het MIME-type niet kent
+const IMPORT_TYPES = ['text/*', 'text/csv', 'text/vcard', 'text/x-vcard', 'text/calendar', 'application/json', 'application/vnd.ms-excel'];
+const IMPORT_EXTENSIONS = ['.csv', '.vcf', '.ics', '.json'];
+
+// Kies een tekstbestand en lees het als UTF-8; null als de gebruiker annuleert
+async function pickTextFile(): Promise<string | null> {
+  if (Platform.OS === 'web') {
+    return new Promise(resolve => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = [...IMPORT_TYPES, ...IMPORT_EXTENSIONS].join(',');
+      input.onchange = () => {
+        const file = input.files?.[0];
+        if (!file) resolve(null);
+        else file.text().then(resolve, () => resolve(null));
+      };
+      input.addEventListener('cancel', () => resolve(null));
+      input.click();
+    });
+  }
+  const res = await DocumentPicker.getDocumentAsync({ type: IMPORT_TYPES });
+  if (res.canceled) return null;
+  return FileSystem.readAsStringAsync(res.assets[0].uri, { encoding: FileSystem.EncodingType.UTF8 });
+}
+
 // ============== Dynamic Styles ==============
 function createStyles(C: ThemeColors) {
   return StyleSheet.create({
@@ -580,6 +1234,7 @@ function createStyles(C: ThemeColors) {
     },
     personName: { color: C.text, fontSize: 16, fontWeight: '700' },
     personSub: { color: C.textDim },
+    personTags: { color: C.textMuted, fontSize: 12, marginTop: 2 },
 
     rowToday: {
       backgroundColor: C.highlightTodayBg,
@@ -593,6 +1248,8 @@ function createStyles(C: ThemeColors) {
       width: 6,
       backgroundColor: '#25D366',
     },
+    rowTodayDone: { opacity: 0.7 },
+    todayStripeDone: { backgroundColor: '#94a3b8' },
     rowNameToday: { fontWeight: '700' },
     rowSubtitleToday: { opacity: 0.95 },
 
@@ -680,6 +1337,11 @@ function createStyles(C: ThemeColors) {
     modalCloseBtn: { alignSelf: 'flex-end', paddingHorizontal: 16, paddingVertical: 10, borderRadius: 12, backgroundColor: C.btnBg, borderWidth: 1, borderColor: C.btnBorder, flexGrow: 0, flexShrink: 0 },
     modalCloseText: { color: C.text, fontWeight: '700', textAlign: 'center' },
 
+    exportBtn: { flex: 0, marginTop: 8 },
+    editCard: { maxHeight: '90%' },
+    previewList: { maxHeight: 360, marginTop: 8 },
+    previewRow: { paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: C.cardBorder },
+
     inputLabel: {
     color: C.text,
     fontWeight: '700',
@@ -722,7 +1384,13 @@ function createStyles(C: ThemeColors) {
     marginTop: 8,
     textDecorationLine: 'none',
     marginBottom: 10,
-  }
+  },
+
+  // Kalender en overzicht: gekleurd streepje per gebeurtenis en de legenda daarbij
+  typeBar: { width: 4, alignSelf: 'stretch', borderRadius: 2 },
+  legend: { flexDirection: 'row', justifyContent: 'center', gap: 16, marginTop: 8 },
+  legendItem: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  legendDot: { width: 8, height: 8, borderRadius: 4 },
 
   });
 }
@@ -780,24 +1448,40 @@ function TimePickerButton({
   );
 }
 
-// DatePickerField (moved out)
+// DatePickerField (moved out); 'jaar onbekend' bewaart de datum als --MM-DD
 function DatePickerField({
   valueISO,
   onChange,
+  L,
   styles,
 }: {
   valueISO: string;
   onChange: (iso: string) => void;
+  L: Locale;
   styles: ReturnType<typeof createStyles>;
 }) {
   const [open, setOpen] = React.useState(false);
   const d = ymdToLocalNoonDate(valueISO);
+  const yearKnown = hasYear(valueISO);
+
+  function toggleYearKnown() {
+    if (yearKnown) {
+      onChange(toYearlessISO(valueISO));
+    } else {
+      // Jaar weer aanzetten: begin bij dit jaar, de gebruiker kiest daarna het echte jaar
+      const { m, d: day } = parseYmd(valueISO);
+      onChange(normalizeDateISO(`${new Date().getFullYear()}-${m}-${day}`) ?? toISODateLocal(new Date()));
+    }
+  }
 
   return (
     <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
       <Pressable onPress={() => setOpen(true)} style={({ pressed }) => [styles.timeBtn, { opacity: pressed ? 0.6 : 1 }]}>
-        <Text style={styles.timeBtnText}>{toISODateLocal(d)}</Text>
+        <Text style={styles.timeBtnText}>{yearKnown ? toISODateLocal(d) : formatDM_localized(valueISO, L)}</Text>
       </Pressable>
+      <Pill small active={!yearKnown} onPress={toggleYearKnown} styles={styles}>
+        {t(L, 'yearUnknown')}
+      </Pill>
 
       {open && (
         <DateTimePicker
@@ -807,7 +1491,8 @@ function DatePickerField({
           onChange={(ev, date) => {
             setOpen(false);
             if (!date) return;
-            onChange(toISODateLocal(date));
+            const iso = toISODateLocal(date);
+            onChange(yearKnown ? iso : toYearlessISO(iso));
           }}
         />
       )}
@@ -816,7 +1501,7 @@ function DatePickerField({
 }
 
 // Pill (moved out)
-function Pill({
+export function Pill({
   active,
   children,
   onPress,
@@ -836,6 +1521,103 @@ function Pill({
   );
 }
 
+// Avatar: foto, of initialen op een vaste kleur per contact
+export function Avatar({ name, colorKey, uri, size = 40 }: { name: string; colorKey: string; uri?: string; size?: number }) {
+  const box = { width: size, height: size, borderRadius: size / 2 };
+  if (uri) return <Image source={{ uri }} style={box} />;
+  return (
+    <View style={[box, { backgroundColor: avatarColor(colorKey), alignItems: 'center', justifyContent: 'center' }]}>
+      <Text style={{ color: 'white', fontWeight: '800', fontSize: size * 0.38 }} allowFontScaling={false}>{initialsOf(name)}</Text>
+    </View>
+  );
+}
+
+// Terug naar het vorige scherm; na een deep link is er geen vorige, dan naar de lijst
+export const goBackOrHome = () => (router.canGoBack() ? router.back() : router.replace('/'));
+
+// Kopbalk van de subschermen: terugknop, daarnaast de titel (of wat het scherm meegeeft)
+export function BackHeader({ L, styles, children }: { L: Locale; styles: ReturnType<typeof createStyles>; children: React.ReactNode }) {
+  return (
+    <View style={[styles.topBar, { flexDirection: 'row', alignItems: 'center', gap: 12 }]}>
+      <TouchableOpacity style={[styles.iconBtn, { marginLeft: 0 }]} onPress={goBackOrHome} accessibilityLabel={t(L, 'back')}>
+        <FontAwesome name="chevron-left" size={18} color="#94a3b8" />
+      </TouchableOpacity>
+      {children}
+    </View>
+  );
+}
+
+export function EventTypeLegend({ L, C, styles }: { L: Locale; C: ThemeColors; styles: ReturnType<typeof createStyles> }) {
+  return (
+    <View style={styles.legend}>
+      {(['birthday', 'anniversary', 'other'] as EventType[]).map(type => (
+        <View key={type} style={styles.legendItem}>
+          <View style={[styles.legendDot, { backgroundColor: eventColor(C, type) }]} />
+          <Text style={styles.personTags}>{t(L, type)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const GREET_CHANNEL_LABEL = { whatsapp: 'greetWhatsApp', sms: 'greetSms', email: 'greetEmail', share: 'greetShare' } as const;
+const GREET_CHANNEL_ICON = { whatsapp: 'whatsapp', sms: 'comment', email: 'envelope', share: 'share-alt' } as const;
+
+// Eén keuze voor elke "Feliciteren" (rij, detailscherm, melding): het onthouden kanaal,
+// anders vragen als er meer dan alleen het deelmenu kan; de keuze gaat naar onChannel
+export async function greetPerson(p: Person, L: Locale, msg: string, onChannel: (p: Person, channel: GreetChannel) => void) {
+  const subject = t(L, 'greetSubject', p.name);
+  if (p.greetChannel) {
+    await sendGreetingAsync(p.greetChannel, p, msg, subject);
+    return;
+  }
+  const options = channelsFor(p);
+  if (options.length === 1) {
+    // Geen nummer of e-mail: WhatsApp zonder ontvanger, anders het deelmenu
+    try {
+      const wa = `whatsapp://send?text=${encodeURIComponent(msg)}`;
+      if (await Linking.canOpenURL(wa)) {
+        await Linking.openURL(wa);
+        return;
+      }
+    } catch {}
+    await Share.share({ message: msg });
+    return;
+  }
+  showAlert(t(L, 'greetVia', p.name), t(L, 'greetViaHint'), [
+    ...options.map(ch => ({
+      text: t(L, GREET_CHANNEL_LABEL[ch]),
+      onPress: async () => onChannel(p, await sendGreetingAsync(ch, p, msg, subject)),
+    })),
+    { text: t(L, 'cancel'), style: 'cancel' as const },
+  ]);
+}
+
+// Felicitatie voor de dag zelf: een sjabloon, anders de vaste tekst; null bij 'other' zonder sjabloon
+export function greetingFor(
+  p: Person,
+  L: Locale,
+  now: Date,
+  leapDay: LeapDayPolicy,
+  greetings: GreetingTemplate[],
+  greetingPick: Settings['greetingPick']
+): string | null {
+  const yrs = ageOn(p.dateISO, now, leapDay);
+  const fromTemplate = p.type === 'other' ? null : pickGreeting(greetings, {
+    type: p.type,
+    locale: L,
+    vars: { name: p.name, age: yrs, label: p.label },
+    preferredId: p.greetingId,
+    mode: greetingPick,
+    seed: p.id,
+    year: now.getFullYear(),
+  });
+  if (fromTemplate) return fromTemplate;
+  if (p.type === 'birthday') return t(L, 'shareBirthdayToday');
+  if (p.type === 'anniversary') return yrs === null ? t(L, 'shareAnniversaryTodayNoYears') : t(L, 'shareAnniversaryToday', yrs);
+  return null;
+}
+
 // PersonRow (moved out + explicit props)
 const PersonRow = React.memo(function PersonRow({
   p,
@@ -843,6 +1625,12 @@ const PersonRow = React.memo(function PersonRow({
   showShareTodayBirthday,
   onEdit,
   onDelete,
+  onGifts,
+  onGreetChannel,
+  onToggleDone,
+  greetings,
+  greetingPick,
+  leapDay,
   L,
   now,
   styles,
@@ -851,47 +1639,50 @@ const PersonRow = React.memo(function PersonRow({
   now: Date;
   styles: ReturnType<typeof createStyles>;
 }) {
-  const when = mode === 'upcoming' ? nextOccurrence(p.dateISO, now) : now;
-  const yrs = ageOn(p.dateISO, when);
+  const when = mode === 'upcoming' ? nextOccurrence(p.dateISO, now, leapDay) : now;
+  const yrs = ageOn(p.dateISO, when, leapDay);
   const phrase = agePhrase(L, yrs, mode, p.type);
-  const typeText = p.type === 'other' ? (p.label?.trim() || t(L, 'other')) : t(L, p.type);
-  const subtitle = `${formatDM_localized(p.dateISO, L)} • ${phrase} • ${typeText}`;
-  const isToday = isSameDay(nextOccurrence(p.dateISO, now), now);
+  const typeText = p.type === 'other'
+    ? (p.label?.trim() || t(L, 'other'))
+    : [t(L, p.type), p.label?.trim()].filter(Boolean).join(' · ');
+  const subtitle = [formatDM_localized(p.dateISO, L), phrase, typeText].filter(Boolean).join(' • ');
+  const isToday = isSameDay(nextOccurrence(p.dateISO, now, leapDay), now);
+  const done = isToday && !!p.congratulated?.includes(now.getFullYear());
 
   async function share() {
-    let msg: string;
-    if (isToday && p.type === 'birthday') {
-      msg = t(L, 'shareBirthdayToday');
-    } else if (isToday && p.type === 'anniversary') {
-      const yrsToday = ageOn(p.dateISO, now);
-      msg = t(L, 'shareAnniversaryToday', yrsToday);
-    } else {
-      msg = `${p.name} — ${subtitle}`;
-    }
-    try {
-      const wa = `whatsapp://send?text=${encodeURIComponent(msg)}`;
-      if (await Linking.canOpenURL(wa)) {
-        await Linking.openURL(wa);
-        return;
-      }
-    } catch {}
-    await Share.share({ message: msg });
+    const msg = (isToday ? greetingFor(p, L, now, leapDay, greetings, greetingPick) : null) ?? `${p.name} — ${subtitle}`;
+    await greetPerson(p, L, msg, onGreetChannel);
   }
 
   return (
-    <View style={[styles.personRow, isToday && styles.rowToday]}>
+    <View style={[styles.personRow, isToday && styles.rowToday, done && styles.rowTodayDone]}>
       <View style={styles.rowClip}>
-        {isToday && <View style={styles.todayStripe} />}
-        <View style={{ flex: 1 }}>
+        {isToday && <View style={[styles.todayStripe, done && styles.todayStripeDone]} />}
+        <Avatar name={p.name} colorKey={p.contactId ?? p.id} uri={p.photoUri} />
+        <Pressable style={{ flex: 1 }} onPress={() => router.push({ pathname: '/person/[id]', params: { id: p.contactId ?? p.id } })}>
           <Text style={[styles.personName, isToday && styles.rowNameToday]}>{p.name}</Text>
           <Text style={[styles.personSub, isToday && styles.rowSubtitleToday]}>{subtitle}</Text>
-        </View>
+          {isToday && <Text style={styles.personSub}>{t(L, done ? 'congratulatedDone' : 'congratulatedPending')}</Text>}
+          {!!p.tags?.length && <Text style={styles.personTags}>{p.tags.map(tag => `#${tag}`).join(' ')}</Text>}
+        </Pressable>
         <View style={styles.rowActions}>
+          {isToday && (
+            <TouchableOpacity style={styles.iconBtn} onPress={() => onToggleDone(p)} accessibilityLabel={t(L, 'congratulatedToggle')}>
+              <FontAwesome name={done ? 'check-circle' : 'circle-o'} size={20} color={done ? '#25D366' : '#94a3b8'} />
+            </TouchableOpacity>
+          )}
           {showShareTodayBirthday && (p.type === 'birthday' || p.type === 'anniversary') && (
-            <TouchableOpacity style={styles.rowBtn} onPress={share} accessibilityLabel={t(L, 'whatsappSend')}>
-              <FontAwesome name="whatsapp" size={20} color="#25D366" />
+            <TouchableOpacity
+              style={styles.rowBtn}
+              onPress={share}
+              accessibilityLabel={p.greetChannel ? `${t(L, 'detailGreet')}: ${t(L, GREET_CHANNEL_LABEL[p.greetChannel])}` : t(L, 'detailGreet')}
+            >
+              <FontAwesome name={GREET_CHANNEL_ICON[p.greetChannel ?? 'whatsapp']} size={20} color="#25D366" />
             </TouchableOpacity>
           )}
+          <TouchableOpacity style={styles.iconBtn} onPress={() => onGifts(p)} accessibilityLabel={t(L, 'gifts')}>
+            <FontAwesome name="gift" size={20} color={p.giftIdeas ? '#a855f7' : '#94a3b8'} />
+          </TouchableOpacity>
           <TouchableOpacity style={styles.iconBtn} onPress={() => onEdit(p)}>
             <FontAwesome name="pencil" size={20} color="#FFAD2A" />
           </TouchableOpacity>
@@ -906,30 +1697,32 @@ const PersonRow = React.memo(function PersonRow({
 
 // ============== Main ==============
 export default function Index() {
-  const [people, setPeople] = useState<Person[]>([]);
-  const [settings, setSettings] = useState<Settings>({
-    weeklySummaryEnabled: true,
-    weeklySummaryWeekday: 1,
-    weeklySummaryHour: 9,
-    weeklySummaryMinute: 0,
-    sameDayHour: 9,
-    sameDayMinute: 0,
-    locale: 'en',
-    search: '',
-    filterType: 'all',
-    sortMode: 'next',
-    themeMode: 'system',
-  });
+  const [contacts, setContacts] = contactsStore.use();
+  // Lijsten en meldingen werken per gebeurtenis
+  const people = useMemo(() => flattenContacts(contacts), [contacts]);
+  const [settings, setSettings] = settingsStore.use();
   const L = settings.locale;
-  const scheme = useColorScheme();
-  const effectiveTheme: 'light' | 'dark' = settings.themeMode === 'system' ? (scheme === 'light' ? 'light' : 'dark') : settings.themeMode;
-  const C = useMemo<ThemeColors>(() => THEME[effectiveTheme] as ThemeColors, [effectiveTheme]);
-  const styles = useMemo(() => createStyles(C), [C]);
+  const { effectiveTheme, C, styles } = useAppTheme(settings.themeMode);
+  // Vanuit person/[id].tsx: ?edit=<contactId> of ?gifts=<contactId>
+  const params = useLocalSearchParams<{ edit?: string; gifts?: string }>();
   const nowDate = new Date();
 
-  const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [editingEventId, setEditingEventId] = useState<string | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [infoOpen, setInfoOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [tagsOpen, setTagsOpen] = useState(false);
+  const [giftsContactId, setGiftsContactId] = useState<string | null>(null);
+  const [giftForm, setGiftForm] = useState({ title: '', price: '', url: '', givenBy: '' });
+  const [newTag, setNewTag] = useState(''); // Toevoegen/Bewerken
+  const [newSettingsTag, setNewSettingsTag] = useState(''); // Tags-venster
+  const [greetingsOpen, setGreetingsOpen] = useState(false);
+  const [greetingsType, setGreetingsType] = useState<GreetingTemplate['type']>('birthday');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [loaded, setLoaded] = loadedStore.use();
+  // Alleen op web: browsers vragen toestemming liefst na een tik van de gebruiker
+  const [webNotifPerm, setWebNotifPerm] = useState(webNotificationPermission);
 
   // Force refresh at local midnight so "Today" / "This week" roll over automatically
   const [, forceTick] = React.useState(0);
@@ -953,15 +1746,34 @@ export default function Index() {
   useEffect(() => {
     (async () => {
       try {
-        // ✅ Notificatie-permissies vragen & Android-kanalen
-        await ensureNotifPerms();
-        await ensureAndroidChannels();
+        const res = await migrateStorage(storageIO, appVersion);
+        if (res.status === 'failed') {
+          // Niet leeg verder gaan: dan zou de persist-stap de oude data overschrijven
+          reportMigrationFailure(res);
+          return;
+        }
+        if (res.status === 'migrated') {
+          console.log(`Opslag gemigreerd v${res.from} → v${res.to}`);
+          if (res.dropped > 0) {
+            showAlert(t(L, 'migrationDroppedTitle'), t(L, 'migrationDropped', res.dropped), [
+              { text: 'OK', style: 'cancel' },
+              exportSnapshotButton(res.snapshot),
+            ]);
+          }
+        }
 
-        const ps = getJSON<Person[]>(K_PEOPLE) || await getJSONAsync<Person[]>(K_PEOPLE);
-        if (ps) setPeople(ps);
+        const cs = res.data[K_CONTACTS] as Contact[] | undefined;
+        if (cs) setContacts(cs);
 
-        const st = getJSON<Partial<Settings>>(K_SETTINGS) || await getJSONAsync<Partial<Settings>>(K_SETTINGS);
+        const st = res.data[K_SETTINGS] as Partial<Settings> | undefined;
         if (st) setSettings(s => ({ ...s, ...st }));
+        setLoaded(true);
+
+        // Pas na het laden, zodat de lijst niet op het antwoord wacht. Op web vraagt de browser
+        // alleen na een tik; dat gebeurt via "Inschakelen" in Instellingen.
+        if (Platform.OS !== 'web') await ensureNotifPerms();
+        await ensureAndroidChannels();
+        await registerNotificationTopUpAsync();
 
         await new Promise(r => setTimeout(r, 1500));
       } catch (e) {
@@ -975,6 +1787,7 @@ export default function Index() {
   }, []);
 
   useEffect(() => {
+    if (Platform.OS === 'web') return;
     (async () => {
       const all = await Notifications.getAllScheduledNotificationsAsync();
       console.log('[startup audit] scheduled:', all.map(n => ({
@@ -987,9 +1800,95 @@ export default function Index() {
   }, []);
 
 
+  function reportMigrationFailure(res: Extract<MigrationResult, { status: 'failed' }>) {
+    showAlert(
+      t(L, 'migrationFailedTitle'),
+      res.error === 'SCHEMA_TOO_NEW' ? t(L, 'migrationTooNew') : t(L, 'migrationFailed', res.error),
+      [
+        { text: 'OK', style: 'cancel' },
+        ...(res.snapshot ? [exportSnapshotButton(res.snapshot)] : []),
+      ]
+    );
+  }
+
+  function exportSnapshotButton(snapshot: Backup) {
+    return {
+      text: t(L, 'migrationExport'),
+      onPress: () => {
+        shareTextFile(`birthday-tracker-recovery-${toISODateLocal(new Date())}.json`, JSON.stringify(snapshot, null, 2), {
+          mimeType: 'application/json',
+          UTI: 'public.json',
+          dialogTitle: t(L, 'backupExportDialog'),
+        }).catch(e => console.error('Export snapshot mislukt', e));
+      },
+    };
+  }
+
+  // Acties uit meldingen (ook die waarmee de app gestart is) pas na het laden verwerken
+  const latest = React.useRef({ people, settings });
+  latest.current = { people, settings };
+  useEffect(() => {
+    if (!loaded) return;
+    const handlers: NotificationActionHandlers = {
+      // Eén persoon → detailscherm; meerdere → kiezen uit de jarigen van vandaag
+      open: (eventIds) => {
+        const { people: all, settings: st } = latest.current;
+        const targets = all.filter(p => eventIds.includes(p.id));
+        const contactIds = Array.from(new Set(targets.map(p => p.contactId).filter((id): id is string => !!id)));
+        if (contactIds.length === 1) router.push({ pathname: '/person/[id]', params: { id: contactIds[0] } });
+        else if (targets.length > 1) {
+          showAlert(t(st.locale, 'todayPeople'), undefined, [
+            ...targets.map(p => ({ text: p.name, onPress: () => router.push({ pathname: '/person/[id]', params: { id: p.contactId ?? p.id } }) })),
+            { text: t(st.locale, 'close'), style: 'cancel' as const },
+          ]);
+        }
+      },
+      markDone: (eventIds, year) => setContacts(prev => markCongratulated(prev, eventIds, year)),
+      sendGreeting: (eventIds) => {
+        const { people: all, settings: st } = latest.current;
+        const targets = all.filter(p => eventIds.includes(p.id));
+        const greet = (p: Person) => {
+          const now = new Date();
+          const msg = greetingFor(p, st.locale, now, st.leapDayPolicy, st.greetingTemplates, st.greetingPick) ?? p.name;
+          greetPerson(p, st.locale, msg, rememberGreetChannel).catch(e => console.error('Felicitatie sturen mislukt', e));
+        };
+        if (targets.length === 1) greet(targets[0]);
+        else if (targets.length > 1) {
+          showAlert(t(st.locale, 'greetWho'), undefined, [
+            ...targets.map(p => ({ text: p.name, onPress: () => greet(p) })),
+            { text: t(st.locale, 'cancel'), style: 'cancel' as const },
+          ]);
+        }
+      },
+    };
+    liveActionHandlers = handlers;
+    const unsubscribe = addNotificationActionListener(handlers);
+    return () => {
+      liveActionHandlers = null;
+      unsubscribe();
+    };
+  }, [loaded]);
+
+  // Bewerken/cadeaus openen op verzoek van het detailscherm; daarna de parameter weer weghalen
+  useEffect(() => {
+    if (!loaded || (!params.edit && !params.gifts)) return;
+    const c = contacts.find(x => x.id === (params.edit ?? params.gifts));
+    if (c && params.edit) {
+      setEditingContact({ ...c, events: c.events.slice() });
+      setEditingEventId(c.events[0]?.id ?? null);
+    } else if (c) {
+      setGiftsContactId(c.id);
+    }
+    router.setParams({ edit: undefined, gifts: undefined });
+  }, [loaded, params.edit, params.gifts, contacts]);
+
   // Persist
-  useDebouncedEffect(() => setJSON(K_PEOPLE, people), [people], 200);
-  useDebouncedEffect(() => setJSON(K_SETTINGS, settings), [settings], 200);
+  useDebouncedEffect(() => { if (loaded) setJSON(K_CONTACTS, contacts); }, [contacts, loaded], 200);
+  // Foto's van verwijderde contacten (of vervangen foto's) opruimen; de foto van een nog niet
+  // bewaarde bewerking staat nog in geen enkel contact en moet blijven
+  const editingPhoto = editingContact?.photo;
+  useDebouncedEffect(() => { if (loaded) cleanupAvatarsAsync(contacts, [editingPhoto]); }, [contacts, loaded, editingPhoto], 2000);
+  useDebouncedEffect(() => { if (loaded) setJSON(K_SETTINGS, settings); }, [settings, loaded], 200);
 
   const notifSig = useMemo(
     () => buildNotificationSignature(settings, people),
@@ -998,6 +1897,8 @@ export default function Index() {
 
   // Herplan alles bij relevante wijzigingen (kleine debounce)
   useEffect(() => {
+    // Zonder geladen data zou dit alle geplande meldingen annuleren
+    if (!loaded) return;
     const t = setTimeout(() => {
       rescheduleAllNotifications(settings, people, L).catch(e =>
         console.error('rescheduleAllNotifications error', e)
@@ -1005,28 +1906,49 @@ export default function Index() {
       // eventueel: debugScheduledNotifications();
     }, 1500);
     return () => clearTimeout(t);
-  }, [notifSig]);
+  }, [notifSig, loaded]);
 
 
   // Cache: eerstvolgende occurrence (epoch ms) per persoon voor deze render
   const nextMap = useMemo(() => {
     const m = new Map<string, number>();
     for (const p of people) {
-      m.set(p.id, nextOccurrence(p.dateISO, nowDate).getTime());
+      m.set(p.id, nextOccurrence(p.dateISO, nowDate, settings.leapDayPolicy).getTime());
     }
     return m;
-  }, [people, nowDate]);
+  }, [people, nowDate, settings.leapDayPolicy]);
+
+  // Alle tags: met instellingen of in gebruik bij iemand (bv. na een CSV-import)
+  const allTags = useMemo(() => {
+    const names = new Set(settings.tags.map(tag => tag.name));
+    for (const p of people) p.tags?.forEach(tag => names.add(tag));
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+  }, [people, settings.tags]);
+
+  function deleteTag(name: string) {
+    setContacts(prev => prev.map(c => (c.tags?.includes(name) ? { ...c, tags: toggleTag(c.tags, name) } : c)));
+    setSettings(s => ({
+      ...s,
+      tags: s.tags.filter(tag => tag.name !== name),
+      filterTag: s.filterTag === name ? null : s.filterTag,
+    }));
+  }
+
+  const searchIndex = useMemo(() => new Map(contacts.map(c => [c.id, searchTextOf(c)])), [contacts]);
 
   // Derived lists
   const filtered = React.useMemo(() => {
     let arr = people.slice();
     if (settings.search.trim()) {
       const q = settings.search.toLowerCase();
-      arr = arr.filter((p) => p.name.toLowerCase().includes(q));
+      arr = arr.filter((p) => (searchIndex.get(p.contactId ?? '') ?? p.name.toLowerCase()).includes(q));
     }
     if (settings.filterType !== 'all') {
       arr = arr.filter((p) => p.type === settings.filterType);
     }
+    if (settings.filterTag) {
+      arr = arr.filter((p) => p.tags?.includes(settings.filterTag!));
+    }
     if (settings.sortMode === 'name') {
       arr.sort((a, b) => a.name.localeCompare(b.name));
     } else {
@@ -1037,7 +1959,7 @@ export default function Index() {
       });
     }
     return arr;
-  }, [people, settings.search, settings.filterType, settings.sortMode, nextMap]);
+  }, [people, searchIndex, settings.search, settings.filterType, settings.filterTag, settings.sortMode, nextMap]);
 
   const todayList = filtered.filter((p) => {
     const t = nextMap.get(p.id);
@@ -1059,60 +1981,302 @@ export default function Index() {
   });
 
   function startAdd() {
-    setEditingPerson({ id: uuid(), name: '', type: 'birthday', dateISO: toISODateLocal(new Date()), sameDayReminder: true });
+    const ev = newEvent();
+    setEditingContact({ id: uuid(), name: '', events: [ev] });
+    setEditingEventId(ev.id);
   }
+  // Opent het contact van deze regel, met deze gebeurtenis geselecteerd
   const startEdit = useCallback((p: Person) => {
-      // Gebruik hier de state van Stap 1 (editingPerson) voor de beste code
-      setEditingPerson({ ...p });
-    }, []); // Lege dependency array: deze functie verandert nooit
+    const c = contacts.find(x => x.id === p.contactId);
+    if (!c) return;
+    setEditingContact({ ...c, events: c.events.slice() });
+    setEditingEventId(p.id);
+  }, [contacts]);
+
+  const editingEvent = editingContact?.events.find(ev => ev.id === editingEventId) ?? editingContact?.events[0];
+
+  function patchEditingEvent(patch: (ev: PersonEvent) => Partial<PersonEvent>) {
+    setEditingContact(c => c && {
+      ...c,
+      events: c.events.map(ev => (ev.id === editingEvent?.id ? { ...ev, ...patch(ev) } : ev)),
+    });
+  }
+  function addEditingEvent() {
+    const ev = newEvent();
+    setEditingContact(c => c && { ...c, events: [...c.events, ev] });
+    setEditingEventId(ev.id);
+  }
+  function removeEditingEvent() {
+    if (!editingContact || !editingEvent || editingContact.events.length < 2) return;
+    const rest = editingContact.events.filter(ev => ev.id !== editingEvent.id);
+    setEditingContact({ ...editingContact, events: rest });
+    setEditingEventId(rest[0].id);
+  }
+
+  // Het kanaal dat echt gebruikt is (na een eventuele terugval) wordt de standaard voor dit contact
+  const rememberGreetChannel = useCallback((p: Person, channel: GreetChannel) => {
+    setContacts(prev => prev.map(c => (c.id === p.contactId ? { ...c, greetChannel: channel } : c)));
+  }, []);
+
+  // Vinkje op een regel van vandaag: dit jaar gefeliciteerd (of weer niet)
+  const toggleDone = useCallback((p: Person) => {
+    setContacts(prev => toggleCongratulated(prev, p.id, new Date().getFullYear()));
+  }, []);
+
+  // Cadeaus worden direct in het contact bewaard (geen aparte opslaan-knop)
+  const openGifts = useCallback((p: Person) => {
+    if (p.contactId) setGiftsContactId(p.contactId);
+  }, []);
+  const giftsContact = contacts.find(c => c.id === giftsContactId) ?? null;
+
+  function updateGiftsContact(fn: (c: Contact) => Partial<Contact>) {
+    setContacts(prev => prev.map(c => (c.id === giftsContactId ? { ...c, ...fn(c) } : c)));
+  }
+  function addGift(given: boolean) {
+    const title = giftForm.title.trim();
+    if (!title) return;
+    const gift: Gift = {
+      id: uuid(),
+      title,
+      price: parsePrice(giftForm.price),
+      url: giftForm.url.trim() || undefined,
+      year: given ? new Date().getFullYear() : undefined,
+      givenBy: given ? giftForm.givenBy.trim() || undefined : undefined,
+    };
+    updateGiftsContact(c => ({ gifts: [...(c.gifts ?? []), gift] }));
+    setGiftForm({ title: '', price: '', url: '', givenBy: '' });
+  }
+  // Idee → geschiedenis van dit jaar
+  function markGiftGiven(id: string) {
+    const givenBy = giftForm.givenBy.trim() || undefined;
+    updateGiftsContact(c => ({ gifts: c.gifts?.map(g => (g.id === id ? { ...g, year: new Date().getFullYear(), givenBy } : g)) }));
+  }
+  function removeGift(id: string) {
+    updateGiftsContact(c => ({ gifts: c.gifts?.filter(g => g.id !== id) }));
+  }
+
+  async function pickEditingPhoto() {
+    if (!editingContact) return;
+    try {
+      const photo = await pickAvatarAsync(editingContact.id);
+      if (photo) setEditingContact(c => c && { ...c, photo });
+    } catch (e) {
+      console.error('pickAvatarAsync error', e);
+    }
+  }
+
+  // Annuleren: een net gekozen foto staat al op schijf maar hoort bij geen enkel contact
+  function cancelEditing() {
+    setEditingContact(null);
+    if (loaded) cleanupAvatarsAsync(contacts);
+  }
 
   function saveEditing() {
-    if (!editingPerson || !editingPerson.name.trim()) { /*...*/ return; }
-    // ... validatie ...
-    setPeople(prev => {
-      const i = prev.findIndex(p => p.id === editingPerson.id);
+    if (!editingContact || !editingContact.name.trim()) { /*...*/ return; }
+    const saved = {
+      ...editingContact,
+      name: editingContact.name.trim(),
+      phone: editingContact.phone?.trim() || undefined,
+      email: editingContact.email?.trim() || undefined,
+    };
+    setContacts(prev => {
+      const i = prev.findIndex(c => c.id === saved.id);
       const copy = prev.slice();
-      if (i >= 0) copy[i] = editingPerson; else copy.push(editingPerson);
+      if (i >= 0) copy[i] = saved; else copy.push(saved);
       return copy;
     });
-    setEditingPerson(null); // Dit sluit de modal
+    setEditingContact(null); // Dit sluit de modal
   }
 
+  // Verwijdert de gebeurtenis van deze regel; het contact alleen als dat de laatste was
   const confirmDelete = useCallback((p: Person) => {
-    Alert.alert(
+    const c = contacts.find(x => x.id === p.contactId);
+    const onlyEvent = !c || c.events.length <= 1;
+    const what = p.type === 'other' ? (p.label?.trim() || t(L, 'other')) : t(L, p.type).toLowerCase();
+    showAlert(
       t(L, 'confirmDeleteTitle'),
-      t(L, 'confirmDeleteMsg', p.name),
+      onlyEvent ? t(L, 'confirmDeleteMsg', p.name) : t(L, 'confirmDeleteEventMsg', p.name, what),
       [
         { text: t(L, 'cancel'), style: 'cancel' },
-        { text: t(L, 'delete'), style: 'destructive', onPress: () => setPeople(prev => prev.filter(x => x.id !== p.id)) },
+        {
+          text: t(L, 'delete'),
+          style: 'destructive',
+          onPress: () => setContacts(prev => prev
+            .map(x => (x.id === p.contactId ? { ...x, events: x.events.filter(ev => ev.id !== p.id) } : x))
+            .filter(x => x.events.length > 0)),
+        },
       ]
     );
-  }, [L]); 
+  }, [L, contacts]);
+
+  // Import/export actions
+  function mergePeople(rows: Person[]) {
+    setContacts(prev => mergeIntoContacts(prev, rows));
+  }
 
-  // CSV actions
-  async function onExport() {
+  async function onExportCSV() {
+    setExportOpen(false);
     const csv = [CSV_HEADER, ...people.map(toCSVRow)].join('\n');
-    const uri = FileSystem.cacheDirectory! + 'birthdays.csv';
-    await FileSystem.writeAsStringAsync(uri, csv, { encoding: FileSystem.EncodingType.UTF8 });
-    await Sharing.shareAsync(uri, { mimeType: 'text/csv', dialogTitle: t(L, 'csvExportDialog') });
+    await shareTextFile('birthdays.csv', csv, { mimeType: 'text/csv', dialogTitle: t(L, 'csvExportDialog') });
+  }
+  async function onExportGifts() {
+    setExportOpen(false);
+    await shareTextFile('gifts.csv', toGiftsCSV(contacts), { mimeType: 'text/csv', dialogTitle: t(L, 'giftsExportDialog') });
+  }
+  async function onExportVCard() {
+    setExportOpen(false);
+    await shareTextFile('birthdays.vcf', toVCards(people), { mimeType: 'text/vcard', UTI: 'public.vcard', dialogTitle: t(L, 'vcardExportDialog') });
+  }
+  async function onExportICS() {
+    setExportOpen(false);
+    await shareTextFile('birthdays.ics', toICS(people, settings), { mimeType: 'text/calendar', UTI: 'com.apple.ical.ics', dialogTitle: t(L, 'icsExportDialog') });
+  }
+  async function onExportBackup() {
+    setExportOpen(false);
+    const backup = {
+      ...createBackup({ [SCHEMA_KEY]: SCHEMA_VERSION, [K_CONTACTS]: contacts, [K_SETTINGS]: settings }, appVersion),
+      files: await readAvatarFilesAsync(contacts),
+    };
+    await shareTextFile(`birthday-tracker-backup-${toISODateLocal(new Date())}.json`, JSON.stringify(backup, null, 2), { mimeType: 'application/json', UTI: 'public.json', dialogTitle: t(L, 'backupExportDialog') });
+  }
+  function confirmRestore(plan: RestorePlan) {
+    const created = new Date(plan.backup.createdAt).toLocaleString(L === 'nl' ? 'nl-NL' : 'en-US');
+    showAlert(
+      t(L, 'restoreTitle'),
+      t(L, 'restoreSummary', created, plan.contacts.length, plan.settings !== null),
+      [
+        { text: t(L, 'cancel'), style: 'cancel' },
+        {
+          text: t(L, 'restoreMerge'),
+          onPress: async () => {
+            await writeAvatarFilesAsync(plan.backup.files ?? {});
+            // Per contact: dat uit de back-up wint, de rest blijft staan
+            const ids = new Set(plan.contacts.map(c => c.id));
+            setContacts(prev => [...prev.filter(c => !ids.has(c.id)), ...plan.contacts]);
+            showAlert(t(L, 'restoreDone'));
+          },
+        },
+        {
+          text: t(L, 'restoreReplace'),
+          style: 'destructive',
+          onPress: async () => {
+            await writeAvatarFilesAsync(plan.backup.files ?? {});
+            setContacts(plan.contacts);
+            if (plan.settings) setSettings({ ...DEFAULT_SETTINGS, ...plan.settings });
+            showAlert(t(L, 'restoreDone'));
+          },
+        },
+      ]
+    );
   }
   async function onImport() {
-    const res = await DocumentPicker.getDocumentAsync({ type: ['text/*', 'text/csv', 'application/vnd.ms-excel'] });
-    if (res.canceled) return;
-    const file = res.assets[0];
-    const text = await FileSystem.readAsStringAsync(file.uri, { encoding: FileSystem.EncodingType.UTF8 });
+    const text = await pickTextFile();
+    if (text === null) return;
     try {
-      const rows = parseCSV(text);
-      setPeople(prev => {
-        const map = new Map<string, Person>();
-        prev.forEach(p => map.set(p.id, p));
-        rows.forEach(p => map.set(p.id, p));
-        return Array.from(map.values());
-      });
-      Alert.alert(t(L, 'csvImported'));
+      if (looksLikeBackup(text)) {
+        confirmRestore(parseBackup(text, { contacts: K_CONTACTS, settings: K_SETTINGS }, migrateData));
+        return;
+      }
+      // vCards en agenda's tonen we eerst: die bevatten vaak meer dan je wilt importeren
+      if (looksLikeVCard(text) || looksLikeICS(text)) {
+        const parsed = looksLikeICS(text) ? parseICS(text, uuid) : parseVCards(text, uuid);
+        if (parsed.people.length === 0 && parsed.skipped.length === 0) {
+          showAlert(t(L, 'importNothing'));
+          return;
+        }
+        setImportPreview(parsed);
+        return;
+      }
+      mergePeople(parseCSV(text));
+      showAlert(t(L, 'csvImported'));
     } catch (e: any) {
-      Alert.alert(e?.message === 'BAD_HEADER' ? t(L, 'csvHeaderInvalid') : String(e));
+      const msg =
+        e?.message === 'BAD_HEADER' ? t(L, 'csvHeaderInvalid')
+        : e?.message === 'BACKUP_INVALID' ? t(L, 'backupInvalid')
+        : e?.message === 'BACKUP_TOO_NEW' ? t(L, 'backupTooNew')
+        : String(e);
+      showAlert(msg);
+    }
+  }
+  // ============== URL-scheme (zie lib/automation.ts) ==============
+  const [automation, setAutomation] = automationRequest.use();
+  useEffect(() => {
+    if (!loaded || !automation) return;
+    setAutomation(null);
+    runAutomation(automation).catch((e: any) => {
+      const msg =
+        e?.message === 'AUTOMATION_BAD_URL' ? t(L, 'automationBadUrl')
+        : e?.message === 'AUTOMATION_FETCH_FAILED' ? t(L, 'automationFetchFailed')
+        : e?.message === 'AUTOMATION_INVALID' ? t(L, 'automationInvalid')
+        : e?.message === 'BAD_HEADER' ? t(L, 'csvHeaderInvalid')
+        : e?.message === 'BACKUP_INVALID' ? t(L, 'backupInvalid')
+        : e?.message === 'BACKUP_TOO_NEW' ? t(L, 'backupTooNew')
+        : String(e);
+      showAlert(msg);
+    });
+  }, [loaded, automation]);
+
+  async function runAutomation({ kind, params }: AutomationRequest) {
+    const existingIds = new Set(people.map(p => p.id));
+
+    if (kind === 'add') {
+      const parsed = parseAddParams(params, normalizeDateISO, uuid, existingIds);
+      // Eén geldige persoon: gewoon het Toevoegen-venster, ingevuld; opslaan blijft aan de gebruiker
+      if (parsed.people.length === 1 && parsed.skipped.length === 0) {
+        const row = parsed.people[0];
+        setEditingContact({ id: uuid(), name: row.name, events: [eventOf(row)] });
+        setEditingEventId(row.id);
+        return;
+      }
+      if (parsed.people.length === 0 && parsed.skipped.length === 0) throw new Error('AUTOMATION_INVALID');
+      setImportPreview(parsed);
+      return;
+    }
+
+    if (kind === 'import') {
+      const text = await fetchImportText(params);
+      if (looksLikeBackup(text)) {
+        confirmRestore(parseBackup(text, { contacts: K_CONTACTS, settings: K_SETTINGS }, migrateData));
+        return;
+      }
+      // Ook CSV eerst tonen: een link kan van iedereen komen
+      const parsed = withoutExistingIds(
+        looksLikeICS(text) ? parseICS(text, uuid)
+        : looksLikeVCard(text) ? parseVCards(text, uuid)
+        : { people: parseCSV(text), skipped: [] },
+        existingIds
+      );
+      if (parsed.people.length === 0 && parsed.skipped.length === 0) {
+        showAlert(t(L, 'importNothing'));
+        return;
+      }
+      setImportPreview(parsed);
+      return;
     }
+
+    // query
+    const today = startOfDay(new Date());
+    const results = queryPeople(people, params, p => {
+      const occ = nextOccurrence(p.dateISO, today, settings.leapDayPolicy);
+      return { next: toISODateLocal(occ), inDays: differenceInCalendarDays(occ, today), age: ageOn(p.dateISO, occ, settings.leapDayPolicy) };
+    });
+    const url = callbackUrl(params, results);
+    if (!url) {
+      showAlert(t(L, 'automationResults', results.length), results.slice(0, 10).map(r => `${r.name} — ${r.next}`).join('\n'));
+      return;
+    }
+    // Gegevens verlaten de app: eerst vragen, en laten zien waarheen
+    showAlert(t(L, 'automationShareTitle'), t(L, 'automationShareMsg', results.length, url.split(/[?#]/)[0]), [
+      { text: t(L, 'cancel'), style: 'cancel' },
+      { text: t(L, 'automationShare'), onPress: () => { Linking.openURL(url).catch(() => showAlert(t(L, 'automationBadUrl'))); } },
+    ]);
+  }
+
+  function confirmImport() {
+    if (!importPreview) return;
+    mergePeople(importPreview.people);
+    setImportPreview(null);
+    showAlert(t(L, 'importDone', importPreview.people.length));
   }
 
   type SectionKey = 'today' | 'week' | 'everyone';
@@ -1182,9 +2346,15 @@ export default function Index() {
         showShareTodayBirthday={showShareTodayBirthday}
         onEdit={startEdit}
         onDelete={confirmDelete}
+        onGifts={openGifts}
+        onGreetChannel={rememberGreetChannel}
+        onToggleDone={toggleDone}
+        greetings={settings.greetingTemplates}
+        greetingPick={settings.greetingPick}
+        leapDay={settings.leapDayPolicy}
       />
     );
-  }, [L, styles, startEdit, confirmDelete, nowDate]);
+  }, [L, styles, startEdit, confirmDelete, openGifts, rememberGreetChannel, toggleDone, settings.greetingTemplates, settings.greetingPick, nowDate, settings.leapDayPolicy]);
 
   // Helpt FlashList betere recycling te doen
   const getItemType = useCallback((item: ListItem) => (
@@ -1199,7 +2369,13 @@ export default function Index() {
       <View style={styles.topBar}>
         <View style={styles.titleRow}>
           <Image source={require('../assets/images/icon-birthday.png')} style={styles.titleIcon} resizeMode="contain" />
-          <Text style={styles.h1}>{t(L, 'title')}</Text>
+          <Text style={[styles.h1, { flex: 1 }]}>{t(L, 'title')}</Text>
+          <TouchableOpacity style={styles.iconBtn} onPress={() => router.push('/calendar')} accessibilityLabel={t(L, 'calendar')}>
+            <FontAwesome name="calendar" size={16} color={C.textDim} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconBtn} onPress={() => router.push('/stats')} accessibilityLabel={t(L, 'stats')}>
+            <FontAwesome name="bar-chart" size={16} color={C.textDim} />
+          </TouchableOpacity>
         </View>
       </View>
 
@@ -1259,6 +2435,17 @@ export default function Index() {
                     {ft === 'all' ? t(L, 'all') : t(L, ft)}
                   </Pill>
                 ))}
+                {allTags.map((tag) => (
+                  <Pill
+                    key={`tag:${tag}`}
+                    small
+                    active={settings.filterTag === tag}
+                    onPress={() => setSettings((s) => ({ ...s, filterTag: s.filterTag === tag ? null : tag }))}
+                    styles={styles}
+                  >
+                    {`#${tag}`}
+                  </Pill>
+                ))}
               </View>
 
               {/* Sort pills */}
@@ -1287,7 +2474,7 @@ export default function Index() {
           <TouchableOpacity style={[styles.bottomBtn, styles.bottomBtnAccent]} onPress={startAdd}>
             <Ionicons name="person-add" size={22} color={effectiveTheme === 'light' ? 'white' : 'white'} />
           </TouchableOpacity>
-          <TouchableOpacity style={styles.bottomBtn} onPress={onExport}>
+          <TouchableOpacity style={styles.bottomBtn} onPress={() => setExportOpen(true)}>
             <Text style={styles.bottomBtnText}>{t(L, 'csvExport')}</Text>
           </TouchableOpacity>
           <TouchableOpacity style={styles.bottomBtn} onPress={onImport}>
@@ -1312,53 +2499,197 @@ export default function Index() {
       </View>
 
       {/* Add/Edit Modal */}
-      <Modal visible={editingPerson !== null} transparent animationType="slide" statusBarTranslucent onRequestClose={() => setEditingPerson(null)}>
+      <Modal visible={editingContact !== null} transparent animationType="slide" statusBarTranslucent onRequestClose={cancelEditing}>
         <BlurView intensity={90} tint={effectiveTheme === 'light' ? 'light' : 'dark'} style={styles.modalBackdrop}>
-          <View style={styles.modalCard}>
-            <Text style={styles.h3}>{t(L, editingPerson && people.find(p => p.id === editingPerson.id) ? 'edit' : 'addPerson')}</Text>
-
-            <Text style={styles.inputLabel}>{t(L, 'nameLabel')}</Text>
-            <TextInput value={editingPerson?.name} onChangeText={v => setEditingPerson(e => e ? { ...e, name: v } : e)} style={styles.input} />
-
-            <Text style={styles.inputLabel}>{t(L, 'typeLabel')}</Text>
-            <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
-              {(['birthday', 'anniversary', 'other'] as const).map(tp => (
-                <Pill
-                  key={tp}
-                  active={editingPerson?.type === tp}
-                  onPress={() => setEditingPerson(e => e ? { ...e, type: tp } : e)}
-                  styles={styles}
-                >
-                  {t(L, tp)}
+          <View style={[styles.modalCard, styles.editCard]}>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.h3}>{t(L, editingContact && contacts.some(c => c.id === editingContact.id) ? 'edit' : 'addPerson')}</Text>
+
+              <View style={[styles.settingRow, { justifyContent: 'flex-start', gap: 12 }]}>
+                <Avatar name={editingContact?.name ?? ''} colorKey={editingContact?.id ?? ''} uri={avatarUri(editingContact?.photo)} size={56} />
+                <Pill small active={false} onPress={pickEditingPhoto} styles={styles}>{t(L, editingContact?.photo ? 'photoChange' : 'photoPick')}</Pill>
+                {!!editingContact?.photo && (
+                  <Pill small active={false} onPress={() => setEditingContact(c => c && { ...c, photo: undefined })} styles={styles}>{t(L, 'photoRemove')}</Pill>
+                )}
+              </View>
+
+              <Text style={styles.inputLabel}>{t(L, 'nameLabel')}</Text>
+              <TextInput value={editingContact?.name} onChangeText={v => setEditingContact(c => c ? { ...c, name: v } : c)} style={styles.input} />
+
+              <Text style={styles.inputLabel}>{t(L, 'phoneLabel')}</Text>
+              <TextInput
+                value={editingContact?.phone ?? ''}
+                onChangeText={v => setEditingContact(c => c && { ...c, phone: v })}
+                placeholder="+31 6 12345678"
+                placeholderTextColor={C.placeholder}
+                keyboardType="phone-pad"
+                style={styles.input}
+              />
+              {!!editingContact?.phone?.trim() && !waNumber(editingContact.phone) && <Text style={styles.personSub}>{t(L, 'phoneLocalHint')}</Text>}
+
+              <Text style={styles.inputLabel}>{t(L, 'emailLabel')}</Text>
+              <TextInput
+                value={editingContact?.email ?? ''}
+                onChangeText={v => setEditingContact(c => c && { ...c, email: v })}
+                autoCapitalize="none"
+                keyboardType="email-address"
+                style={styles.input}
+              />
+
+              <Text style={styles.inputLabel}>{t(L, 'greetChannelLabel')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                <Pill small active={!editingContact?.greetChannel} onPress={() => setEditingContact(c => c && { ...c, greetChannel: undefined })} styles={styles}>
+                  {t(L, 'greetAsk')}
                 </Pill>
-              ))}
-            </View>
+                {(['whatsapp', 'sms', 'email', 'share'] as const).map(ch => (
+                  <Pill key={ch} small active={editingContact?.greetChannel === ch} onPress={() => setEditingContact(c => c && { ...c, greetChannel: ch })} styles={styles}>
+                    {t(L, GREET_CHANNEL_LABEL[ch])}
+                  </Pill>
+                ))}
+              </View>
 
-            {editingPerson?.type === 'other' && (
-              <>
-                <Text style={styles.inputLabel}>{t(L, 'labelLabel')}</Text>
-                <TextInput value={editingPerson?.label} onChangeText={v => setEditingPerson(e => e ? { ...e, label: v } : e)} style={styles.input} />
-              </>
-            )}
+              {/* Gebeurtenissen van dit contact; de velden hieronder horen bij de geselecteerde */}
+              <Text style={styles.inputLabel}>{t(L, 'events')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                {editingContact?.events.map(ev => (
+                  <Pill key={ev.id} small active={ev.id === editingEvent?.id} onPress={() => setEditingEventId(ev.id)} styles={styles}>
+                    {`${ev.type === 'other' ? (ev.label?.trim() || t(L, 'other')) : t(L, ev.type)} ${formatDM_localized(ev.dateISO, L)}`}
+                  </Pill>
+                ))}
+                <Pill small active={false} onPress={addEditingEvent} styles={styles}>{t(L, 'eventAdd')}</Pill>
+              </View>
 
-            <Text style={styles.inputLabel}>{t(L, 'dateLabel')}</Text>
-            <DatePickerField valueISO={editingPerson?.dateISO ?? toISODateLocal(new Date())} onChange={iso => setEditingPerson(e => e ? { ...e, dateISO: iso } : e)} styles={styles}/>
+              <Text style={styles.inputLabel}>{t(L, 'typeLabel')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                {(['birthday', 'anniversary', 'other'] as const).map(tp => (
+                  <Pill
+                    key={tp}
+                    active={editingEvent?.type === tp}
+                    onPress={() => patchEditingEvent(() => ({ type: tp }))}
+                    styles={styles}
+                  >
+                    {t(L, tp)}
+                  </Pill>
+                ))}
+              </View>
 
-            <View style={[styles.settingRow, { marginTop: 12 }]}>
-              <Text style={styles.settingLabel}>{t(L, 'sameDay')}</Text>
-              <Pressable onPress={() => setEditingPerson(e => e ? { ...e, sameDayReminder: !e.sameDayReminder } : e)} style={[styles.switchBtn, editingPerson?.sameDayReminder && styles.switchOn]}>
-                <View style={[styles.switchDot, editingPerson?.sameDayReminder && styles.switchDotOn]} />
-              </Pressable>
-            </View>
+              <Text style={styles.inputLabel}>{t(L, editingEvent?.type === 'other' ? 'labelLabel' : 'eventLabel')}</Text>
+              <TextInput value={editingEvent?.label ?? ''} onChangeText={v => patchEditingEvent(() => ({ label: v || undefined }))} style={styles.input} />
 
-            <View style={{ flexDirection: 'row', gap: 8, marginTop: 16 }}>
-              <TouchableOpacity style={[styles.bottomBtn, { flex: 1 }]} onPress={() => setEditingPerson(null)}>
-                <Text style={styles.bottomBtnText}>{t(L, 'cancel')}</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={[styles.bottomBtn, { flex: 1, backgroundColor: C.accent, borderColor: C.accent }]} onPress={saveEditing}>
-                <Text style={[styles.bottomBtnText, { fontWeight: '800', color: 'white' }]}>{t(L, 'save')}</Text>
-              </TouchableOpacity>
-            </View>
+              <Text style={styles.inputLabel}>{t(L, 'dateLabel')}</Text>
+              <DatePickerField valueISO={editingEvent?.dateISO ?? toISODateLocal(new Date())} onChange={iso => patchEditingEvent(() => ({ dateISO: iso }))} L={L} styles={styles}/>
+
+              <View style={[styles.settingRow, { marginTop: 12 }]}>
+                <Text style={styles.settingLabel}>{t(L, 'sameDay')}</Text>
+                <Pressable onPress={() => patchEditingEvent(ev => ({ sameDayReminder: !ev.sameDayReminder }))} style={[styles.switchBtn, editingEvent?.sameDayReminder && styles.switchOn]}>
+                  <View style={[styles.switchDot, editingEvent?.sameDayReminder && styles.switchDotOn]} />
+                </Pressable>
+              </View>
+
+              <View style={[styles.settingRow, { marginTop: 12 }]}>
+                <Text style={styles.settingLabel}>{t(L, 'customTime')}</Text>
+                <Pressable
+                  onPress={() => patchEditingEvent(ev => (
+                    ev.reminderHour === undefined
+                      ? { reminderHour: settings.sameDayHour, reminderMinute: settings.sameDayMinute }
+                      : { reminderHour: undefined, reminderMinute: undefined }
+                  ))}
+                  style={[styles.switchBtn, editingEvent?.reminderHour !== undefined && styles.switchOn]}
+                >
+                  <View style={[styles.switchDot, editingEvent?.reminderHour !== undefined && styles.switchDotOn]} />
+                </Pressable>
+              </View>
+              {editingEvent?.reminderHour !== undefined && (
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>{t(L, 'daytime')}</Text>
+                  <TimePickerButton hour={editingEvent.reminderHour} minute={editingEvent.reminderMinute ?? 0} onChange={(h, m) => patchEditingEvent(() => ({ reminderHour: h, reminderMinute: m }))} />
+                </View>
+              )}
+
+              <Text style={styles.inputLabel}>{t(L, 'leadDays')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                <Pill small active={editingEvent?.leadDays === undefined} onPress={() => patchEditingEvent(() => ({ leadDays: undefined }))} styles={styles}>
+                  {t(L, 'leadDaysDefault')}
+                </Pill>
+                {LEAD_DAY_OPTIONS.map(n => (
+                  <Pill
+                    key={n}
+                    small
+                    active={!!editingEvent?.leadDays?.includes(n)}
+                    onPress={() => patchEditingEvent(ev => ({ leadDays: toggleLeadDay(ev.leadDays ?? settings.defaultLeadDays, n) }))}
+                    styles={styles}
+                  >
+                    {t(L, 'leadDaysShort', n)}
+                  </Pill>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>{t(L, 'congratulatedHistory')}</Text>
+              <Text style={styles.personSub}>
+                {editingEvent?.congratulated?.length
+                  ? editingEvent.congratulated.slice().reverse().join(', ')
+                  : t(L, 'congratulatedNever')}
+              </Text>
+
+              {editingEvent && editingEvent.type !== 'other' && (
+                <>
+                  <Text style={styles.inputLabel}>{t(L, 'greetingLabel')}</Text>
+                  <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                    <Pill small active={!editingEvent.greetingId} onPress={() => patchEditingEvent(() => ({ greetingId: undefined }))} styles={styles}>
+                      {t(L, settings.greetingPick === 'random' ? 'greetingRandom' : 'greetingRotate')}
+                    </Pill>
+                    {settings.greetingTemplates.filter(tpl => tpl.type === editingEvent.type && tpl.locale === L).map(tpl => (
+                      <Pill key={tpl.id} small active={editingEvent.greetingId === tpl.id} onPress={() => patchEditingEvent(() => ({ greetingId: tpl.id }))} styles={styles}>
+                        {tpl.text.length > 28 ? `${tpl.text.slice(0, 27)}…` : tpl.text}
+                      </Pill>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              {(editingContact?.events.length ?? 0) > 1 && (
+                <TouchableOpacity onPress={removeEditingEvent} style={{ marginTop: 12 }}>
+                  <Text style={{ color: '#cc0000', fontWeight: '700' }}>{t(L, 'eventRemove')}</Text>
+                </TouchableOpacity>
+              )}
+
+              <Text style={styles.inputLabel}>{t(L, 'tags')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                {Array.from(new Set([...allTags, ...(editingContact?.tags ?? [])])).map(tag => (
+                  <Pill
+                    key={tag}
+                    small
+                    active={!!editingContact?.tags?.includes(tag)}
+                    onPress={() => setEditingContact(c => c ? { ...c, tags: toggleTag(c.tags, tag) } : c)}
+                    styles={styles}
+                  >
+                    {`#${tag}`}
+                  </Pill>
+                ))}
+              </View>
+              <TextInput
+                value={newTag}
+                onChangeText={setNewTag}
+                placeholder={t(L, 'tagAdd')}
+                placeholderTextColor={C.placeholder}
+                returnKeyType="done"
+                onSubmitEditing={() => {
+                  const name = normalizeTagName(newTag);
+                  if (name) setEditingContact(c => c && !c.tags?.includes(name) ? { ...c, tags: [...(c.tags ?? []), name] } : c);
+                  setNewTag('');
+                }}
+                style={[styles.input, { marginTop: 8 }]}
+              />
+
+              <View style={{ flexDirection: 'row', gap: 8, marginTop: 16 }}>
+                <TouchableOpacity style={[styles.bottomBtn, { flex: 1 }]} onPress={cancelEditing}>
+                  <Text style={styles.bottomBtnText}>{t(L, 'cancel')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.bottomBtn, { flex: 1, backgroundColor: C.accent, borderColor: C.accent }]} onPress={saveEditing}>
+                  <Text style={[styles.bottomBtnText, { fontWeight: '800', color: 'white' }]}>{t(L, 'save')}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
           </View>
         </BlurView>
       </Modal>
@@ -1423,6 +2754,78 @@ export default function Index() {
               <TimePickerButton hour={settings.sameDayHour} minute={settings.sameDayMinute} onChange={(h, m) => setSettings(s => ({ ...s, sameDayHour: h, sameDayMinute: m }))} />
             </View>
 
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>{t(L, 'leadDays')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                {LEAD_DAY_OPTIONS.map(n => (
+                  <Pill
+                    key={n}
+                    small
+                    active={settings.defaultLeadDays.includes(n)}
+                    onPress={() => setSettings(s => ({ ...s, defaultLeadDays: toggleLeadDay(s.defaultLeadDays, n) }))}
+                    styles={styles}
+                  >
+                    {t(L, 'leadDaysShort', n)}
+                  </Pill>
+                ))}
+              </View>
+            </View>
+
+            {/* Foto als bijlage bij meldingen: alleen iOS ondersteunt dat */}
+            {Platform.OS === 'ios' && (
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>{t(L, 'notificationPhotos')}</Text>
+                <Pressable onPress={() => setSettings(s => ({ ...s, notificationPhotos: !s.notificationPhotos }))} style={[styles.switchBtn, settings.notificationPhotos && styles.switchOn]}>
+                  <View style={[styles.switchDot, settings.notificationPhotos && styles.switchDotOn]} />
+                </Pressable>
+              </View>
+            )}
+
+            {/* Tags */}
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>{t(L, 'tags')}</Text>
+              <Pill active={false} onPress={() => { setSettingsOpen(false); setTagsOpen(true); }} styles={styles}>{t(L, 'tagsManage', allTags.length)}</Pill>
+            </View>
+
+            {/* Felicitatieteksten */}
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>{t(L, 'greetings')}</Text>
+              <Pill active={false} onPress={() => { setSettingsOpen(false); setGreetingsOpen(true); }} styles={styles}>
+                {t(L, 'greetingsManage', settings.greetingTemplates.filter(tpl => tpl.locale === L).length)}
+              </Pill>
+            </View>
+
+            {/* 29 februari */}
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>{t(L, 'leapDay')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <Pill active={settings.leapDayPolicy === 'feb28'} onPress={() => setSettings(s => ({ ...s, leapDayPolicy: 'feb28' }))} styles={styles}>{t(L, 'leapFeb28')}</Pill>
+                <Pill active={settings.leapDayPolicy === 'mar1'} onPress={() => setSettings(s => ({ ...s, leapDayPolicy: 'mar1' }))} styles={styles}>{t(L, 'leapMar1')}</Pill>
+              </View>
+            </View>
+
+            {/* Browsermeldingen (web) */}
+            {webNotifPerm !== 'unsupported' && (
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>{t(L, 'browserNotifications')}</Text>
+                {webNotifPerm === 'default' ? (
+                  <Pill
+                    active={false}
+                    onPress={async () => {
+                      const ok = await ensureNotifPerms();
+                      setWebNotifPerm(webNotificationPermission());
+                      if (ok) rescheduleAllNotifications(settings, people, L).catch(e => console.error('rescheduleAllNotifications error', e));
+                    }}
+                    styles={styles}
+                  >
+                    {t(L, 'browserNotificationsEnable')}
+                  </Pill>
+                ) : (
+                  <Text style={styles.settingLabel}>{t(L, webNotifPerm === 'granted' ? 'browserNotificationsOn' : 'browserNotificationsBlocked')}</Text>
+                )}
+              </View>
+            )}
+
             {/* Language */}
             <View style={styles.settingRow}>
               <Text style={styles.settingLabel}>{t(L, 'language')}</Text>
@@ -1451,6 +2854,285 @@ export default function Index() {
         </BlurView>
       </Modal>
 
+      {/* Greetings Modal */}
+      <Modal visible={greetingsOpen} transparent animationType="slide" statusBarTranslucent onRequestClose={() => setGreetingsOpen(false)}>
+        <BlurView intensity={90} tint={effectiveTheme === 'light' ? 'light' : 'dark'} style={styles.modalBackdrop}>
+          <View style={[styles.modalCard, styles.editCard]}>
+            <Text style={styles.h3}>{t(L, 'greetings')}</Text>
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              {(['birthday', 'anniversary'] as const).map(tp => (
+                <Pill key={tp} active={greetingsType === tp} onPress={() => setGreetingsType(tp)} styles={styles}>{t(L, tp)}</Pill>
+              ))}
+            </View>
+            <View style={[styles.settingRow, { marginTop: 8 }]}>
+              <Text style={styles.settingLabel}>{t(L, 'greetingPick')}</Text>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <Pill small active={settings.greetingPick === 'rotate'} onPress={() => setSettings(s => ({ ...s, greetingPick: 'rotate' }))} styles={styles}>{t(L, 'greetingRotate')}</Pill>
+                <Pill small active={settings.greetingPick === 'random'} onPress={() => setSettings(s => ({ ...s, greetingPick: 'random' }))} styles={styles}>{t(L, 'greetingRandom')}</Pill>
+              </View>
+            </View>
+            <Text style={styles.personSub}>{t(L, 'greetingHint')}</Text>
+            <ScrollView style={styles.previewList} keyboardShouldPersistTaps="handled">
+              {settings.greetingTemplates.filter(tpl => tpl.type === greetingsType && tpl.locale === L).map(tpl => (
+                <View key={tpl.id} style={styles.previewRow}>
+                  <View style={styles.settingRow}>
+                    <TextInput
+                      value={tpl.text}
+                      onChangeText={v => setSettings(s => ({ ...s, greetingTemplates: s.greetingTemplates.map(x => (x.id === tpl.id ? { ...x, text: v } : x)) }))}
+                      multiline
+                      style={[styles.input, { flex: 1 }]}
+                    />
+                    <TouchableOpacity
+                      style={styles.iconBtn}
+                      onPress={() => setSettings(s => ({ ...s, greetingTemplates: s.greetingTemplates.filter(x => x.id !== tpl.id) }))}
+                    >
+                      <FontAwesome name="trash" size={18} color="#cc0000" />
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.personSub}>{renderGreeting(tpl.text, { name: 'Anna', age: 40, label: 'Anna' })}</Text>
+                </View>
+              ))}
+            </ScrollView>
+            <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+              <Pill
+                active={false}
+                onPress={() => setSettings(s => ({ ...s, greetingTemplates: [...s.greetingTemplates, { id: uuid(), type: greetingsType, locale: L, text: '' }] }))}
+                styles={styles}
+              >
+                {t(L, 'greetingAdd')}
+              </Pill>
+            </View>
+            <View style={{ flexDirection: 'row', gap: 8, marginTop: 16 }}>
+              <TouchableOpacity style={[styles.bottomBtn, { flex: 1 }]} onPress={() => setGreetingsOpen(false)}>
+                <Text style={styles.bottomBtnText}>{t(L, 'close')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </BlurView>
+      </Modal>
+
+      {/* Tags Modal */}
+      <Modal visible={tagsOpen} transparent animationType="slide" statusBarTranslucent onRequestClose={() => setTagsOpen(false)}>
+        <BlurView intensity={90} tint={effectiveTheme === 'light' ? 'light' : 'dark'} style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.h3}>{t(L, 'tags')}</Text>
+            {allTags.length === 0 && <Text style={styles.settingLabel}>{t(L, 'tagsEmpty')}</Text>}
+            <ScrollView style={styles.previewList}>
+              {allTags.map(name => {
+                const tag = settings.tags.find(x => x.name === name);
+                const count = contacts.filter(c => c.tags?.includes(name)).length;
+                return (
+                  <View key={name} style={styles.previewRow}>
+                    <View style={styles.settingRow}>
+                      <Text style={styles.settingLabel}>{`#${name} (${count})`}</Text>
+                      <TouchableOpacity
+                        style={styles.iconBtn}
+                        onPress={() => showAlert(t(L, 'tagDeleteTitle'), t(L, 'tagDeleteMsg', name), [
+                          { text: t(L, 'cancel'), style: 'cancel' },
+                          { text: t(L, 'delete'), style: 'destructive', onPress: () => deleteTag(name) },
+                        ])}
+                      >
+                        <FontAwesome name="trash" size={18} color="#cc0000" />
+                      </TouchableOpacity>
+                    </View>
+                    <View style={styles.settingRow}>
+                      <Text style={styles.settingLabel}>{t(L, 'tagMuted')}</Text>
+                      <Pressable
+                        onPress={() => setSettings(s => ({ ...s, tags: updateTag(s.tags, name, { muted: !tag?.muted }) }))}
+                        style={[styles.switchBtn, tag?.muted && styles.switchOn]}
+                      >
+                        <View style={[styles.switchDot, tag?.muted && styles.switchDotOn]} />
+                      </Pressable>
+                    </View>
+                    <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginTop: 6 }}>
+                      <Pill small active={tag?.leadDays === undefined} onPress={() => setSettings(s => ({ ...s, tags: updateTag(s.tags, name, { leadDays: undefined }) }))} styles={styles}>
+                        {t(L, 'leadDaysDefault')}
+                      </Pill>
+                      {LEAD_DAY_OPTIONS.map(n => (
+                        <Pill
+                          key={n}
+                          small
+                          active={!!tag?.leadDays?.includes(n)}
+                          onPress={() => setSettings(s => ({ ...s, tags: updateTag(s.tags, name, { leadDays: toggleLeadDay(tag?.leadDays ?? s.defaultLeadDays, n) }) }))}
+                          styles={styles}
+                        >
+                          {t(L, 'leadDaysShort', n)}
+                        </Pill>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })}
+            </ScrollView>
+            <TextInput
+              value={newSettingsTag}
+              onChangeText={setNewSettingsTag}
+              placeholder={t(L, 'tagAdd')}
+              placeholderTextColor={C.placeholder}
+              returnKeyType="done"
+              onSubmitEditing={() => {
+                const name = normalizeTagName(newSettingsTag);
+                // Nieuwe, nog ongebruikte tag: bewaren als (lege) instelling zodat hij zichtbaar blijft
+                if (name && !allTags.includes(name)) setSettings(s => ({ ...s, tags: [...s.tags, { name }] }));
+                setNewSettingsTag('');
+              }}
+              style={[styles.input, { marginTop: 8 }]}
+            />
+            <View style={{ flexDirection: 'row', gap: 8, marginTop: 16 }}>
+              <TouchableOpacity style={[styles.bottomBtn, { flex: 1 }]} onPress={() => setTagsOpen(false)}>
+                <Text style={styles.bottomBtnText}>{t(L, 'close')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </BlurView>
+      </Modal>
+
+      {/* Gifts Modal */}
+      <Modal visible={giftsContact !== null} transparent animationType="slide" statusBarTranslucent onRequestClose={() => setGiftsContactId(null)}>
+        <BlurView intensity={90} tint={effectiveTheme === 'light' ? 'light' : 'dark'} style={styles.modalBackdrop}>
+          <View style={[styles.modalCard, styles.editCard]}>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.h3}>{t(L, 'giftsTitle', giftsContact?.name ?? '')}</Text>
+
+              <Text style={styles.inputLabel}>{t(L, 'notes')}</Text>
+              <TextInput
+                value={giftsContact?.notes ?? ''}
+                onChangeText={v => updateGiftsContact(() => ({ notes: v || undefined }))}
+                multiline
+                style={[styles.input, { minHeight: 60 }]}
+              />
+
+              <Text style={styles.inputLabel}>{t(L, 'giftIdeas')}</Text>
+              {!giftsContact?.gifts?.some(g => g.year === undefined) && <Text style={styles.personSub}>{t(L, 'giftIdeasEmpty')}</Text>}
+              {giftsContact?.gifts?.filter(g => g.year === undefined).map(g => (
+                <View key={g.id} style={[styles.previewRow, styles.settingRow]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.settingLabel}>{g.price !== undefined ? `${g.title} · ${g.price}` : g.title}</Text>
+                    {!!g.url && <Text style={[styles.personSub, { textDecorationLine: 'underline' }]} numberOfLines={1} onPress={() => Linking.openURL(g.url!).catch(() => {})}>{g.url}</Text>}
+                  </View>
+                  <Pill small active={false} onPress={() => markGiftGiven(g.id)} styles={styles}>{t(L, 'giftMarkGiven')}</Pill>
+                  <TouchableOpacity style={styles.iconBtn} onPress={() => removeGift(g.id)}>
+                    <FontAwesome name="trash" size={16} color="#cc0000" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <Text style={styles.inputLabel}>{t(L, 'giftHistory')}</Text>
+              {!giftsContact?.gifts?.some(g => g.year !== undefined) && <Text style={styles.personSub}>{t(L, 'giftHistoryEmpty')}</Text>}
+              {giftsContact?.gifts?.filter(g => g.year !== undefined).sort((a, b) => b.year! - a.year!).map(g => (
+                <View key={g.id} style={[styles.previewRow, styles.settingRow]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.settingLabel}>{`${g.year} · ${g.title}`}</Text>
+                    <Text style={styles.personSub}>
+                      {[g.givenBy && t(L, 'giftGivenBy', g.givenBy), g.price !== undefined && String(g.price)].filter(Boolean).join(' • ')}
+                    </Text>
+                  </View>
+                  <TouchableOpacity style={styles.iconBtn} onPress={() => removeGift(g.id)}>
+                    <FontAwesome name="trash" size={16} color="#cc0000" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <Text style={styles.inputLabel}>{t(L, 'giftAdd')}</Text>
+              <TextInput value={giftForm.title} onChangeText={v => setGiftForm(f => ({ ...f, title: v }))} placeholder={t(L, 'giftTitle')} placeholderTextColor={C.placeholder} style={styles.input} />
+              <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+                <TextInput value={giftForm.price} onChangeText={v => setGiftForm(f => ({ ...f, price: v }))} placeholder={t(L, 'giftPrice')} placeholderTextColor={C.placeholder} keyboardType="decimal-pad" style={[styles.input, { flex: 1 }]} />
+                <TextInput value={giftForm.givenBy} onChangeText={v => setGiftForm(f => ({ ...f, givenBy: v }))} placeholder={t(L, 'giftBy')} placeholderTextColor={C.placeholder} style={[styles.input, { flex: 2 }]} />
+              </View>
+              <TextInput value={giftForm.url} onChangeText={v => setGiftForm(f => ({ ...f, url: v }))} placeholder={t(L, 'giftUrl')} placeholderTextColor={C.placeholder} autoCapitalize="none" keyboardType="url" style={[styles.input, { marginTop: 8 }]} />
+              <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+                <Pill active={false} onPress={() => addGift(false)} styles={styles}>{t(L, 'giftSaveIdea')}</Pill>
+                <Pill active={false} onPress={() => addGift(true)} styles={styles}>{t(L, 'giftSaveGiven')}</Pill>
+              </View>
+
+              <View style={{ flexDirection: 'row', gap: 8, marginTop: 16 }}>
+                <TouchableOpacity style={[styles.bottomBtn, { flex: 1 }]} onPress={() => setGiftsContactId(null)}>
+                  <Text style={styles.bottomBtnText}>{t(L, 'close')}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </BlurView>
+      </Modal>
+
+      {/* Export Modal */}
+      <Modal visible={exportOpen} transparent animationType="slide" statusBarTranslucent onRequestClose={() => setExportOpen(false)}>
+        <BlurView intensity={90} tint={effectiveTheme === 'light' ? 'light' : 'dark'} style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.h3}>{t(L, 'exportTitle')}</Text>
+            <TouchableOpacity style={[styles.bottomBtn, styles.exportBtn]} onPress={onExportCSV}>
+              <Text style={styles.bottomBtnText}>{t(L, 'exportCsv')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.bottomBtn, styles.exportBtn]} onPress={onExportVCard}>
+              <Text style={styles.bottomBtnText}>{t(L, 'exportVCard')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.bottomBtn, styles.exportBtn]} onPress={onExportICS}>
+              <Text style={styles.bottomBtnText}>{t(L, 'exportICS')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.bottomBtn, styles.exportBtn]} onPress={onExportGifts}>
+              <Text style={styles.bottomBtnText}>{t(L, 'exportGifts')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.bottomBtn, styles.exportBtn]} onPress={onExportBackup}>
+              <Text style={styles.bottomBtnText}>{t(L, 'exportBackup')}</Text>
+            </TouchableOpacity>
+            <View style={{ flexDirection: 'row', gap: 8, marginTop: 16 }}>
+              <TouchableOpacity style={[styles.bottomBtn, { flex: 1 }]} onPress={() => setExportOpen(false)}>
+                <Text style={styles.bottomBtnText}>{t(L, 'close')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </BlurView>
+      </Modal>
+
+      {/* Import Preview Modal */}
+      <Modal visible={importPreview !== null} transparent animationType="slide" statusBarTranslucent onRequestClose={() => setImportPreview(null)}>
+        <BlurView intensity={90} tint={effectiveTheme === 'light' ? 'light' : 'dark'} style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.h3}>{t(L, 'importPreviewTitle')}</Text>
+            <Text style={styles.personSub}>
+              {t(L, 'importPreviewSummary',
+                importPreview?.people.filter(p => !people.some(x => x.id === p.id)).length ?? 0,
+                importPreview?.people.filter(p => people.some(x => x.id === p.id)).length ?? 0)}
+            </Text>
+
+            <ScrollView style={styles.previewList}>
+              {importPreview?.people.map(p => (
+                <View key={p.id} style={styles.previewRow}>
+                  <Text style={styles.settingLabel}>{p.name}</Text>
+                  <Text style={styles.personSub}>
+                    {[
+                      formatDMY_localized(p.dateISO, L),
+                      p.type === 'other' ? (p.label?.trim() || t(L, 'other')) : t(L, p.type),
+                      people.some(x => x.id === p.id) ? t(L, 'importUpdates') : null,
+                    ].filter(Boolean).join(' • ')}
+                  </Text>
+                </View>
+              ))}
+
+              {!!importPreview?.skipped.length && (
+                <>
+                  <Text style={styles.inputLabel}>{t(L, 'importSkipped', importPreview.skipped.length)}</Text>
+                  {importPreview.skipped.map((sk, i) => (
+                    <Text key={`${sk.label}:${i}`} style={styles.personSub}>{sk.label} — {t(L, sk.reason)}</Text>
+                  ))}
+                </>
+              )}
+            </ScrollView>
+
+            <View style={{ flexDirection: 'row', gap: 8, marginTop: 16 }}>
+              <TouchableOpacity style={[styles.bottomBtn, { flex: 1 }]} onPress={() => setImportPreview(null)}>
+                <Text style={styles.bottomBtnText}>{t(L, 'cancel')}</Text>
+              </TouchableOpacity>
+              {!!importPreview?.people.length && (
+                <TouchableOpacity style={[styles.bottomBtn, { flex: 1, backgroundColor: C.accent, borderColor: C.accent }]} onPress={confirmImport}>
+                  <Text style={[styles.bottomBtnText, { fontWeight: '800', color: 'white' }]}>{t(L, 'importConfirm')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </BlurView>
+      </Modal>
+
       {/* Info Modal */}
       <Modal visible={infoOpen} transparent animationType="slide" statusBarTranslucent onRequestClose={() => setInfoOpen(false)}>
         <BlurView intensity={90} tint={effectiveTheme === 'light' ? 'light' : 'dark'} style={styles.modalBackdrop}>
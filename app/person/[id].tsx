@@ -0,0 +1,168 @@
+// app/person/[id].tsx
+// Detailscherm van één contact: komende data met leeftijden, notities en acties.
+// Bereikbaar via birthdayreminder://person/<id> en door op een melding te tikken.
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import { router, useLocalSearchParams } from 'expo-router';
+import { StatusBar as ExpoStatusBar } from 'expo-status-bar';
+import React, { useMemo } from 'react';
+import { SafeAreaView, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { avatarUri } from '@/lib/avatars';
+import {
+  Avatar,
+  BackHeader,
+  ageOn,
+  agePhrase,
+  contactsStore,
+  flattenContacts,
+  goBackOrHome,
+  greetPerson,
+  greetingFor,
+  loadedStore,
+  nextOccurrence,
+  settingsStore,
+  t,
+  toggleCongratulated,
+  useAppTheme,
+  type LeapDayPolicy,
+  type Locale,
+  type Person,
+} from '../index';
+
+// Zoveel komende keren per gebeurtenis
+const OCCURRENCES_SHOWN = 3;
+
+// "zaterdag 25 augustus 2029" / "Saturday, August 25, 2029"
+function formatLongDate(d: Date, L: Locale) {
+  return new Intl.DateTimeFormat(L === 'nl' ? 'nl-NL' : 'en-US', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }).format(d);
+}
+
+function upcomingOf(p: Person, now: Date, leapDay: LeapDayPolicy) {
+  const out: { date: Date; age: number | null }[] = [];
+  let ref = startOfDay(now);
+  for (let i = 0; i < OCCURRENCES_SHOWN; i++) {
+    const date = nextOccurrence(p.dateISO, ref, leapDay);
+    out.push({ date, age: ageOn(p.dateISO, date, leapDay) });
+    ref = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  }
+  return out;
+}
+
+export default function PersonScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [contacts, setContacts] = contactsStore.use();
+  const [settings] = settingsStore.use();
+  const [loaded] = loadedStore.use();
+  const L = settings.locale;
+  const { effectiveTheme, styles } = useAppTheme(settings.themeMode);
+  const now = new Date();
+
+  // id is een contact-id, of de id van een gebeurtenis (zoals in meldingen)
+  const contact = contacts.find(c => c.id === id) ?? contacts.find(c => c.events.some(ev => ev.id === id));
+  const people = useMemo(() => (contact ? flattenContacts([contact]) : []), [contact]);
+
+  if (!contact) {
+    return (
+      <SafeAreaView style={styles.safe}>
+        <View style={styles.topBar}>
+          <Text style={styles.h1}>{loaded ? t(L, 'detailNotFound') : '…'}</Text>
+        </View>
+        {loaded && (
+          <View style={{ flexDirection: 'row', marginHorizontal: 16 }}>
+            <TouchableOpacity style={styles.bottomBtn} onPress={goBackOrHome}>
+              <Text style={styles.bottomBtnText}>{t(L, 'back')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  const giftIdeas = contact.gifts?.filter(g => g.year === undefined).length ?? 0;
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ExpoStatusBar style={effectiveTheme === 'light' ? 'dark' : 'light'} />
+
+      <BackHeader L={L} styles={styles}>
+        <Avatar name={contact.name} colorKey={contact.id} uri={avatarUri(contact.photo)} size={56} />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.h1}>{contact.name}</Text>
+          {!!contact.tags?.length && <Text style={styles.personTags}>{contact.tags.map(tag => `#${tag}`).join(' ')}</Text>}
+        </View>
+      </BackHeader>
+
+      <ScrollView contentContainerStyle={{ paddingBottom: 48 }}>
+        {people.map(p => {
+          const isToday = differenceInCalendarDays(nextOccurrence(p.dateISO, now, settings.leapDayPolicy), now) === 0;
+          const done = isToday && !!p.congratulated?.includes(now.getFullYear());
+          const title = p.type === 'other'
+            ? (p.label?.trim() || t(L, 'other'))
+            : [t(L, p.type), p.label?.trim()].filter(Boolean).join(' · ');
+
+          return (
+            <View key={p.id}>
+              <Text style={styles.h2}>{title}</Text>
+              {upcomingOf(p, now, settings.leapDayPolicy).map(({ date, age }, i) => {
+                const days = differenceInCalendarDays(date, now);
+                return (
+                  <View key={date.getTime()} style={[styles.personRow, i === 0 && isToday && styles.rowToday]}>
+                    <View style={styles.rowClip}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.personName}>{formatLongDate(date, L)}</Text>
+                        <Text style={styles.personSub}>
+                          {[days === 0 ? t(L, 'today') : t(L, 'detailInDays', days), agePhrase(L, age, days === 0 ? 'current' : 'upcoming', p.type)]
+                            .filter(Boolean)
+                            .join(' • ')}
+                        </Text>
+                      </View>
+                    </View>
+                  </View>
+                );
+              })}
+
+              {isToday && (
+                <View style={{ flexDirection: 'row', gap: 8, marginHorizontal: 16 }}>
+                  <TouchableOpacity
+                    style={styles.bottomBtn}
+                    onPress={() => {
+                      const msg = greetingFor(p, L, now, settings.leapDayPolicy, settings.greetingTemplates, settings.greetingPick) ?? p.name;
+                      greetPerson(p, L, msg, (q, channel) => setContacts(prev => prev.map(c => (c.id === q.contactId ? { ...c, greetChannel: channel } : c))))
+                        .catch(e => console.error('Felicitatie sturen mislukt', e));
+                    }}
+                  >
+                    <Text style={styles.bottomBtnText}>{t(L, 'detailGreet')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.bottomBtn} onPress={() => setContacts(prev => toggleCongratulated(prev, p.id, now.getFullYear()))}>
+                    <Text style={styles.bottomBtnText}>{t(L, done ? 'congratulatedDone' : 'congratulatedToggle')}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {!!p.congratulated?.length && (
+                <Text style={[styles.personSub, { marginHorizontal: 16, marginTop: 6 }]}>
+                  {`${t(L, 'congratulatedHistory')}: ${p.congratulated.slice().reverse().join(', ')}`}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+
+        {!!contact.notes?.trim() && (
+          <>
+            <Text style={styles.h2}>{t(L, 'notes')}</Text>
+            <Text style={[styles.personSub, { marginHorizontal: 16 }]}>{contact.notes}</Text>
+          </>
+        )}
+
+        <View style={{ flexDirection: 'row', gap: 8, marginHorizontal: 16, marginTop: 24 }}>
+          <TouchableOpacity style={styles.bottomBtn} onPress={() => router.navigate({ pathname: '/', params: { gifts: contact.id } })}>
+            <Text style={styles.bottomBtnText}>{giftIdeas ? `${t(L, 'gifts')} (${giftIdeas})` : t(L, 'gifts')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.bottomBtn} onPress={() => router.navigate({ pathname: '/', params: { edit: contact.id } })}>
+            <Text style={styles.bottomBtnText}>{t(L, 'edit')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,8 @@
+// app/query.tsx
+// birthdayreminder://query?… → verzoek klaarzetten voor index.tsx (zie lib/automation.ts)
+import { useAutomationLink } from '@/lib/automation';
+
+export default function QueryLink() {
+  useAutomationLink('query');
+  return null;
+}
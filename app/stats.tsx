@@ -0,0 +1,277 @@
+// app/stats.tsx
+// Overzicht: gebeurtenissen per maand, drukste week, komende ronde getallen, leeftijdsverdeling
+// en wie er geen herinnering of geen geboortejaar heeft. Alles berekend uit `people`.
+import { addDays, addYears, differenceInCalendarDays, getISOWeek, startOfDay, startOfWeek } from 'date-fns';
+import { router } from 'expo-router';
+import { StatusBar as ExpoStatusBar } from 'expo-status-bar';
+import React, { useMemo } from 'react';
+import { SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import Svg, { Line, Rect, Text as SvgText } from 'react-native-svg';
+import {
+  Avatar,
+  BackHeader,
+  EventTypeLegend,
+  ageOn,
+  agePhrase,
+  contactsStore,
+  eventColor,
+  flattenContacts,
+  nextOccurrence,
+  settingsStore,
+  t,
+  useAppTheme,
+  type EventType,
+  type LeapDayPolicy,
+  type Locale,
+  type Person,
+  type Settings,
+  type ThemeColors,
+} from './index';
+import { hasReminders } from '@/lib/notifications';
+
+const EVENT_TYPES: EventType[] = ['birthday', 'anniversary', 'other'];
+// Leeftijden in groepen van tien; de laatste groep is "90+"
+const AGE_BUCKETS = 10;
+const CHART_HEIGHT = 140;
+
+const intlLocale = (L: Locale) => (L === 'nl' ? 'nl-NL' : 'en-US');
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Berekeningen
+
+type Occurrence = { p: Person; date: Date; age: number | null };
+
+// Eerstvolgende keer per gebeurtenis; valt altijd binnen het komende jaar
+function upcoming(people: Person[], now: Date, leapDay: LeapDayPolicy): Occurrence[] {
+  return people
+    .map(p => {
+      const date = nextOccurrence(p.dateISO, now, leapDay);
+      return { p, date, age: ageOn(p.dateISO, date, leapDay) };
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Per maand (jan..dec) het aantal per type
+function perMonth(occurrences: Occurrence[]) {
+  const months = Array.from({ length: 12 }, () => ({ birthday: 0, anniversary: 0, other: 0 } as Record<EventType, number>));
+  for (const { p, date } of occurrences) months[date.getMonth()][p.type]++;
+  return months;
+}
+
+// Week (ma t/m zo) met de meeste gebeurtenissen; bij gelijkspel de eerstvolgende
+function busiestWeek(occurrences: Occurrence[], now: Date) {
+  const end = addYears(startOfDay(now), 1);
+  const weeks = new Map<number, number>();
+  for (const { date } of occurrences) {
+    if (date >= end) continue;
+    const key = startOfWeek(date, { weekStartsOn: 1 }).getTime();
+    weeks.set(key, (weeks.get(key) ?? 0) + 1);
+  }
+  let best: { start: Date; count: number } | null = null;
+  for (const [key, count] of [...weeks.entries()].sort(([a], [b]) => a - b)) {
+    if (!best || count > best.count) best = { start: new Date(key), count };
+  }
+  return best;
+}
+
+// Verjaardagen per tiental, anders per lustrum (12½ jaar getrouwd laten we hier buiten)
+function isRoundNumber(type: EventType, age: number) {
+  if (age <= 0) return false;
+  return type === 'birthday' ? age % 10 === 0 : age % 5 === 0;
+}
+
+// Huidige leeftijden van verjaardagen met een geboortejaar, in groepen van tien
+function ageDistribution(people: Person[], now: Date, leapDay: LeapDayPolicy) {
+  const buckets = Array.from({ length: AGE_BUCKETS }, () => 0);
+  for (const p of people) {
+    if (p.type !== 'birthday') continue;
+    const age = ageOn(p.dateISO, now, leapDay);
+    if (age === null) continue;
+    buckets[Math.min(AGE_BUCKETS - 1, Math.floor(age / 10))]++;
+  }
+  return buckets;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Grafiek
+
+type Bar = { label: string; segments: { value: number; color: string }[] };
+
+// Staafdiagram met gestapelde segmenten; de waarde staat boven elke staaf
+function BarChart({ bars, width, C }: { bars: Bar[]; width: number; C: ThemeColors }) {
+  const labelSpace = 16;
+  const valueSpace = 14;
+  const plotHeight = CHART_HEIGHT - labelSpace - valueSpace;
+  const max = Math.max(1, ...bars.map(b => b.segments.reduce((sum, s) => sum + s.value, 0)));
+  const slot = width / bars.length;
+  const barWidth = Math.max(4, slot * 0.6);
+  const baseline = valueSpace + plotHeight;
+
+  return (
+    <Svg width={width} height={CHART_HEIGHT}>
+      <Line x1={0} x2={width} y1={baseline} y2={baseline} stroke={C.cardBorder} strokeWidth={1} />
+      {bars.map((bar, i) => {
+        const x = i * slot + (slot - barWidth) / 2;
+        const total = bar.segments.reduce((sum, s) => sum + s.value, 0);
+        let y = baseline;
+        return (
+          <React.Fragment key={bar.label}>
+            {bar.segments.filter(s => s.value > 0).map((s, j) => {
+              const h = (s.value / max) * plotHeight;
+              y -= h;
+              return <Rect key={j} x={x} y={y} width={barWidth} height={h} fill={s.color} />;
+            })}
+            {total > 0 && (
+              <SvgText x={x + barWidth / 2} y={y - 3} fontSize={10} fill={C.textDim} textAnchor="middle">
+                {String(total)}
+              </SvgText>
+            )}
+            <SvgText x={x + barWidth / 2} y={CHART_HEIGHT - 3} fontSize={10} fill={C.textMuted} textAnchor="middle">
+              {bar.label}
+            </SvgText>
+          </React.Fragment>
+        );
+      })}
+    </Svg>
+  );
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Scherm
+
+export default function StatsScreen() {
+  const [contacts] = contactsStore.use();
+  const [settings] = settingsStore.use();
+  const L = settings.locale;
+  const { effectiveTheme, C, styles } = useAppTheme(settings.themeMode);
+  const st = useMemo(() => createStatsStyles(C), [C]);
+  const { width } = useWindowDimensions();
+  const chartWidth = width - 32 - 24; // marges van het scherm en de kaart
+
+  const now = startOfDay(new Date());
+  const people = useMemo(() => flattenContacts(contacts), [contacts]);
+  const stats = useMemo(() => computeStats(people, settings, now), [people, settings, now.getTime()]);
+
+  const monthLabels = useMemo(() => {
+    const fmt = new Intl.DateTimeFormat(intlLocale(L), { month: 'short' });
+    return Array.from({ length: 12 }, (_, m) => fmt.format(new Date(2000, m, 1)).replace('.', ''));
+  }, [L]);
+
+  const dayMonth = (d: Date) => new Intl.DateTimeFormat(intlLocale(L), { day: 'numeric', month: 'short' }).format(d);
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ExpoStatusBar style={effectiveTheme === 'light' ? 'dark' : 'light'} />
+
+      <BackHeader L={L} styles={styles}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.h1}>{t(L, 'stats')}</Text>
+          <Text style={styles.personTags}>{t(L, 'statsTotals', contacts.length, people.length)}</Text>
+        </View>
+      </BackHeader>
+
+      <ScrollView contentContainerStyle={{ paddingBottom: 48 }}>
+        <View style={st.tiles}>
+          <View style={st.tile}>
+            <Text style={st.tileValue}>{stats.remindersOff}</Text>
+            <Text style={styles.personSub}>{t(L, 'statsRemindersOff')}</Text>
+          </View>
+          <View style={st.tile}>
+            <Text style={st.tileValue}>{stats.noBirthYear}</Text>
+            <Text style={styles.personSub}>{t(L, 'statsNoBirthYear')}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.h2}>{t(L, 'statsPerMonth')}</Text>
+        {people.length === 0 ? (
+          <Text style={styles.empty}>{t(L, 'statsNoEvents')}</Text>
+        ) : (
+          <View style={st.card}>
+            <BarChart
+              C={C}
+              width={chartWidth}
+              bars={stats.months.map((counts, m) => ({
+                label: monthLabels[m],
+                segments: EVENT_TYPES.map(type => ({ value: counts[type], color: eventColor(C, type) })),
+              }))}
+            />
+            <EventTypeLegend L={L} C={C} styles={styles} />
+          </View>
+        )}
+
+        <Text style={styles.h2}>{t(L, 'statsBusiestWeek')}</Text>
+        {stats.busiest ? (
+          <Text style={[styles.personSub, { marginHorizontal: 16 }]}>
+            {t(L, 'statsBusiestWeekText', getISOWeek(stats.busiest.start), `${dayMonth(stats.busiest.start)} – ${dayMonth(addDays(stats.busiest.start, 6))}`, stats.busiest.count)}
+          </Text>
+        ) : (
+          <Text style={styles.empty}>{t(L, 'statsNoEvents')}</Text>
+        )}
+
+        <Text style={styles.h2}>{t(L, 'statsMilestones')}</Text>
+        {stats.milestones.length === 0 && <Text style={styles.empty}>{t(L, 'statsNoMilestones')}</Text>}
+        {stats.milestones.map(({ p, date, age }) => {
+          const days = differenceInCalendarDays(date, now);
+          return (
+            <TouchableOpacity
+              key={p.id}
+              style={[styles.personRow, days === 0 && styles.rowToday]}
+              onPress={() => router.push({ pathname: '/person/[id]', params: { id: p.contactId ?? p.id } })}
+            >
+              <View style={styles.rowClip}>
+                <View style={[styles.typeBar, { backgroundColor: eventColor(C, p.type) }]} />
+                <Avatar name={p.name} colorKey={p.contactId ?? p.id} uri={p.photoUri} size={36} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.personName}>{p.name}</Text>
+                  <Text style={styles.personSub}>
+                    {[dayMonth(date), days === 0 ? t(L, 'today') : t(L, 'detailInDays', days), agePhrase(L, age, days === 0 ? 'current' : 'upcoming', p.type)]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </Text>
+                </View>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        <Text style={styles.h2}>{t(L, 'statsAgeDistribution')}</Text>
+        {stats.ages.every(n => n === 0) ? (
+          <Text style={styles.empty}>{t(L, 'statsNoAges')}</Text>
+        ) : (
+          <View style={st.card}>
+            <BarChart
+              C={C}
+              width={chartWidth}
+              bars={stats.ages.map((n, i) => ({
+                label: i === AGE_BUCKETS - 1 ? `${i * 10}+` : `${i * 10}–${i * 10 + 9}`,
+                segments: [{ value: n, color: C.eventBirthday }],
+              }))}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function computeStats(people: Person[], settings: Settings, now: Date) {
+  const occurrences = upcoming(people, now, settings.leapDayPolicy);
+  return {
+    months: perMonth(occurrences),
+    busiest: busiestWeek(occurrences, now),
+    milestones: occurrences.filter(o => o.age !== null && isRoundNumber(o.p.type, o.age)),
+    ages: ageDistribution(people, now, settings.leapDayPolicy),
+    remindersOff: people.filter(p => !hasReminders(p, settings)).length,
+    noBirthYear: people.filter(p => p.type === 'birthday' && p.dateISO.startsWith('--')).length,
+  };
+}
+
+function createStatsStyles(C: ThemeColors) {
+  return StyleSheet.create({
+    tiles: { flexDirection: 'row', gap: 8, marginHorizontal: 16, marginTop: 8 },
+    tile: { flex: 1, padding: 12, borderRadius: 14, borderWidth: 1, borderColor: C.cardBorder, backgroundColor: C.cardBg },
+    tileValue: { color: C.text, fontSize: 24, fontWeight: '800' },
+
+    card: { marginHorizontal: 16, padding: 12, borderRadius: 14, borderWidth: 1, borderColor: C.cardBorder, backgroundColor: C.cardBg },
+  });
+}
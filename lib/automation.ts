@@ -0,0 +1,155 @@
+// automation.ts
+// URL-scheme voor Opdrachten (iOS) en Tasker (Android):
+//   birthdayreminder://add?name=…&date=…&type=…&label=…   → ingevuld Toevoegen-venster (of bevestigen bij meerdere)
+//   birthdayreminder://import?url=https://…               → bestand ophalen en eerst tonen, zoals een gewone import
+//   birthdayreminder://query?name=…&days=…&x-success=…    → resultaat als JSON terug naar de aanroeper
+// De routes (add.tsx, import.tsx, query.tsx) zetten alleen een verzoek klaar; index.tsx voert het uit.
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect } from 'react';
+import type { EventType, Person } from '@/app/index';
+import { createSharedState } from './store';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Verzoeken
+
+export type AutomationKind = 'add' | 'import' | 'query';
+export type AutomationParams = Record<string, string | string[] | undefined>;
+export type AutomationRequest = { kind: AutomationKind; params: AutomationParams };
+
+// Wacht tot index.tsx geladen is; die zet hem daarna terug op null
+export const automationRequest = createSharedState<AutomationRequest | null>(null);
+
+// Voor de route-bestanden: verzoek klaarzetten en terug naar de lijst
+export function useAutomationLink(kind: AutomationKind) {
+  const params = useLocalSearchParams();
+  useEffect(() => {
+    automationRequest.set({ kind, params });
+    router.dismissTo('/');
+  }, []);
+}
+
+const list = (v: string | string[] | undefined) => (v === undefined ? [] : Array.isArray(v) ? v : [v]);
+const first = (v: string | string[] | undefined) => list(v)[0]?.trim() || undefined;
+
+// ───────────────────────────────────────────────────────────────────────────────
+// add
+
+const EVENT_TYPES: EventType[] = ['birthday', 'anniversary', 'other'];
+
+// reason = STR-key, zelfde lijst als bij vCard/iCal
+export type AutomationSkip = { label: string; reason: 'skipNoName' | 'skipNoDate' | 'skipBadDate' | 'skipBadType' | 'skipIdExists' };
+
+// Herhaalde name/date/type/label/id horen op volgorde bij elkaar (name=A&date=…&name=B&date=…).
+// Een id die al bestaat wordt nooit overschreven maar overgeslagen.
+export function parseAddParams(
+  params: AutomationParams,
+  normalizeDate: (raw: string) => string | null,
+  newId: () => string,
+  existingIds: Set<string>
+): { people: Person[]; skipped: AutomationSkip[] } {
+  const names = list(params.name);
+  const dates = list(params.date);
+  const types = list(params.type);
+  const labels = list(params.label);
+  const ids = list(params.id);
+
+  const people: Person[] = [];
+  const skipped: AutomationSkip[] = [];
+  const count = Math.max(names.length, dates.length);
+  for (let i = 0; i < count; i++) {
+    const name = names[i]?.trim() ?? '';
+    const label = name || dates[i] || '?';
+    if (!name) { skipped.push({ label, reason: 'skipNoName' }); continue; }
+    if (!dates[i]?.trim()) { skipped.push({ label, reason: 'skipNoDate' }); continue; }
+    const dateISO = normalizeDate(dates[i].trim());
+    if (!dateISO) { skipped.push({ label, reason: 'skipBadDate' }); continue; }
+    // Eén type voor allemaal mag ook
+    const type = (types[i] ?? types[0] ?? 'birthday').trim().toLowerCase() as EventType;
+    if (!EVENT_TYPES.includes(type)) { skipped.push({ label, reason: 'skipBadType' }); continue; }
+    const id = ids[i]?.trim();
+    if (id && (existingIds.has(id) || people.some(p => p.id === id))) { skipped.push({ label, reason: 'skipIdExists' }); continue; }
+
+    people.push({ id: id || newId(), name, type, dateISO, label: labels[i]?.trim() || undefined, sameDayReminder: true });
+  }
+  return { people, skipped };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// import
+
+const FETCH_TIMEOUT_MS = 15000;
+
+// Alleen http(s); gooit Error('AUTOMATION_BAD_URL') of Error('AUTOMATION_FETCH_FAILED')
+export async function fetchImportText(params: AutomationParams) {
+  const raw = first(params.url);
+  if (!raw || !/^https?:\/\/[^\s]+$/i.test(raw)) throw new Error('AUTOMATION_BAD_URL');
+
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const res = await fetch(raw, { signal: ctrl.signal });
+    if (!res.ok) throw new Error('AUTOMATION_FETCH_FAILED');
+    return await res.text();
+  } catch {
+    throw new Error('AUTOMATION_FETCH_FAILED');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Regels uit een opgehaald bestand met een bestaande id: overslaan i.p.v. stil bijwerken
+export function withoutExistingIds<T extends { people: Person[]; skipped: { label: string; reason: string }[] }>(parsed: T, existingIds: Set<string>): T {
+  const fresh = parsed.people.filter(p => !existingIds.has(p.id));
+  const taken = parsed.people.filter(p => existingIds.has(p.id)).map(p => ({ label: p.name, reason: 'skipIdExists' }));
+  return { ...parsed, people: fresh, skipped: [...parsed.skipped, ...taken] };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// query
+
+export type QueryResult = {
+  id: string;
+  contactId?: string;
+  name: string;
+  type: EventType;
+  dateISO: string;
+  label?: string;
+  next: string; // YYYY-MM-DD van de eerstvolgende keer
+  age: number | null; // leeftijd/jaren op die dag
+};
+
+// name = deel van de naam, tag = exacte tag, days = alleen wie binnen zoveel dagen aan de beurt is
+export function queryPeople(
+  people: Person[],
+  params: AutomationParams,
+  upcoming: (p: Person) => { next: string; inDays: number; age: number | null }
+): QueryResult[] {
+  const name = first(params.name)?.toLowerCase();
+  const tag = first(params.tag);
+  const days = first(params.days) !== undefined ? Number(first(params.days)) : undefined;
+  if (days !== undefined && (!Number.isInteger(days) || days < 0)) throw new Error('AUTOMATION_INVALID');
+
+  return people
+    .filter(p => !name || p.name.toLowerCase().includes(name))
+    .filter(p => !tag || !!p.tags?.includes(tag))
+    .map(p => ({ p, u: upcoming(p) }))
+    .filter(({ u }) => days === undefined || u.inDays <= days)
+    .sort((a, b) => a.u.inDays - b.u.inDays)
+    .map(({ p, u }) => ({
+      id: p.id,
+      contactId: p.contactId,
+      name: p.name,
+      type: p.type,
+      dateISO: p.dateISO,
+      label: p.label,
+      next: u.next,
+      age: u.age,
+    }));
+}
+
+// x-callback-url: resultaat als ?result=<json> achter x-success
+export function callbackUrl(params: AutomationParams, result: unknown) {
+  const base = first(params['x-success']);
+  if (!base) return null;
+  return `${base}${base.includes('?') ? '&' : '?'}result=${encodeURIComponent(JSON.stringify(result))}`;
+}
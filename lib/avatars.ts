@@ -0,0 +1,107 @@
+// avatars.ts
+// Foto per contact: lokaal in documentDirectory/avatars/, of initialen met een kleur uit de id
+import * as FileSystem from 'expo-file-system/legacy';
+import * as ImagePicker from 'expo-image-picker';
+import { Platform } from 'react-native';
+import type { Contact } from '@/app/index';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Opslag
+// Contact.photo is een bestandsnaam in AVATAR_DIR (het absolute pad van documentDirectory
+// verandert op iOS bij een update), of op web een data-URL.
+const AVATAR_DIR = 'avatars/';
+
+const avatarDir = () => FileSystem.documentDirectory + AVATAR_DIR;
+
+// Alleen platte bestandsnamen ('.' en '..' ook niet); alles uit een back-up moet in de map blijven
+export function isAvatarFileName(name: string) {
+  return /^[\w.-]+$/.test(name) && !/^\.+$/.test(name);
+}
+
+export function avatarUri(photo?: string) {
+  if (!photo) return undefined;
+  if (photo.startsWith('data:')) return photo;
+  return avatarDir() + photo;
+}
+
+// Laat de gebruiker een (vierkant bijgesneden) foto kiezen; geeft de nieuwe Contact.photo terug
+export async function pickAvatarAsync(contactId: string): Promise<string | null> {
+  const res = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsEditing: true,
+    aspect: [1, 1],
+    quality: 0.6,
+    base64: Platform.OS === 'web',
+  });
+  if (res.canceled) return null;
+  const asset = res.assets[0];
+
+  if (Platform.OS === 'web') {
+    return asset.base64 ? `data:${asset.mimeType ?? 'image/jpeg'};base64,${asset.base64}` : asset.uri;
+  }
+
+  await FileSystem.makeDirectoryAsync(avatarDir(), { intermediates: true }).catch(() => {});
+  // Nieuwe naam per keuze, zodat caches (en geplande meldingen) nooit een oude foto tonen
+  const name = `${contactId}-${Date.now()}.jpg`;
+  await FileSystem.copyAsync({ from: asset.uri, to: avatarDir() + name });
+  return name;
+}
+
+// Verwijdert foto's waar geen contact meer naar verwijst
+// `keep`: namen die (nog) niet in een contact staan maar wel in gebruik zijn, zoals de foto van een open bewerking
+export async function cleanupAvatarsAsync(contacts: Contact[], keep: (string | undefined)[] = []) {
+  if (Platform.OS === 'web') return;
+  const used = new Set([...contacts.map(c => c.photo), ...keep].filter(Boolean));
+  try {
+    const files = await FileSystem.readDirectoryAsync(avatarDir());
+    for (const f of files) {
+      if (!used.has(f)) await FileSystem.deleteAsync(avatarDir() + f, { idempotent: true });
+    }
+  } catch {
+    // map bestaat nog niet
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Back-up: foto's als base64 (bestandsnaam → inhoud)
+
+export async function readAvatarFilesAsync(contacts: Contact[]) {
+  const files: Record<string, string> = {};
+  if (Platform.OS === 'web') return files; // data-URL's zitten al in de contacten
+  for (const c of contacts) {
+    if (!c.photo || c.photo.startsWith('data:')) continue;
+    try {
+      files[c.photo] = await FileSystem.readAsStringAsync(avatarDir() + c.photo, { encoding: FileSystem.EncodingType.Base64 });
+    } catch {
+      // bestand weg; het contact valt terug op initialen
+    }
+  }
+  return files;
+}
+
+export async function writeAvatarFilesAsync(files: Record<string, string>) {
+  if (Platform.OS === 'web') return;
+  await FileSystem.makeDirectoryAsync(avatarDir(), { intermediates: true }).catch(() => {});
+  for (const [name, base64] of Object.entries(files)) {
+    if (!isAvatarFileName(name)) continue;
+    await FileSystem.writeAsStringAsync(avatarDir() + name, base64, { encoding: FileSystem.EncodingType.Base64 });
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Initialen-avatar
+
+export function initialsOf(name: string) {
+  const words = name.replace(/[&+]/g, ' ').split(/\s+/).filter(w => /\p{L}/u.test(w));
+  if (words.length === 0) return '?';
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : '';
+  return (first + last).toUpperCase();
+}
+
+// Vaste kleur per id (djb2-hash → tint), zodat iemand altijd dezelfde kleur houdt
+export function avatarColor(id: string) {
+  let h = 5381;
+  for (let i = 0; i < id.length; i++) h = ((h << 5) + h + id.charCodeAt(i)) | 0;
+  return `hsl(${Math.abs(h) % 360}, 55%, 45%)`;
+}
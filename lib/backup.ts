@@ -0,0 +1,104 @@
+// backup.ts
+// Volledige back-up (JSON): alle opslag-keys (contacts.v6, settings.v5, …) in één versioned bestand
+import type { Contact, Settings } from '@/app/index';
+import { isAvatarFileName } from './avatars';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Formaat
+export const BACKUP_FORMAT = 'mybirthdaytracker-backup';
+// Ophogen als de structuur van het bestand zelf verandert; nieuwe keys in `data` mogen zonder
+export const BACKUP_VERSION = 1;
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO timestamp
+  appVersion: string;
+  data: Record<string, unknown>; // opslag-key → waarde, zoals getJSON die teruggeeft (incl. schema-versie)
+  files?: Record<string, string>; // contactfoto's: bestandsnaam → base64
+};
+
+export type RestorePlan = {
+  backup: Backup;
+  contacts: Contact[];
+  settings: Partial<Settings> | null;
+};
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Maken
+
+export function createBackup(data: Record<string, unknown>, appVersion: string, now = new Date()): Backup {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: now.toISOString(), appVersion, data };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Lezen + valideren
+
+export function looksLikeBackup(text: string) {
+  return /^\s*\{/.test(text) && text.includes(BACKUP_FORMAT);
+}
+
+const EVENT_TYPES = ['birthday', 'anniversary', 'other'];
+
+function isEvent(v: any) {
+  return !!v
+    && typeof v.id === 'string' && v.id.length > 0
+    && EVENT_TYPES.includes(v.type)
+    && typeof v.dateISO === 'string' && /^(\d{4}|-)-\d{2}-\d{2}$/.test(v.dateISO);
+}
+
+function isContact(v: any): v is Contact {
+  return !!v
+    && typeof v.id === 'string' && v.id.length > 0
+    && typeof v.name === 'string'
+    && (v.gifts === undefined || (Array.isArray(v.gifts) && v.gifts.every((g: any) => g && typeof g.id === 'string' && typeof g.title === 'string')))
+    && Array.isArray(v.events) && v.events.every(isEvent);
+}
+
+// Gooit Error('BACKUP_INVALID') of Error('BACKUP_TOO_NEW'); zelfde stijl als parseCSV.
+// `migrate` brengt de data van een oudere app-versie naar het huidige schema (zie migrations.ts).
+export function parseBackup(
+  text: string,
+  keys: { contacts: string; settings: string },
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>
+): RestorePlan {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('BACKUP_INVALID');
+  }
+  if (
+    !raw || raw.format !== BACKUP_FORMAT || typeof raw.version !== 'number'
+    || typeof raw.createdAt !== 'string' || typeof raw.data !== 'object' || !raw.data
+  ) {
+    throw new Error('BACKUP_INVALID');
+  }
+  if (raw.version > BACKUP_VERSION) throw new Error('BACKUP_TOO_NEW');
+  if (raw.files !== undefined && (
+    !raw.files || typeof raw.files !== 'object'
+    || !Object.entries(raw.files).every(([name, v]) => isAvatarFileName(name) && typeof v === 'string')
+  )) {
+    throw new Error('BACKUP_INVALID');
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = migrate(raw.data);
+  } catch (e) {
+    throw new Error(e instanceof Error && e.message === 'SCHEMA_TOO_NEW' ? 'BACKUP_TOO_NEW' : 'BACKUP_INVALID');
+  }
+
+  const contacts = data[keys.contacts] ?? [];
+  if (!Array.isArray(contacts) || !contacts.every(isContact)) throw new Error('BACKUP_INVALID');
+
+  const settings = data[keys.settings] ?? null;
+  if (settings !== null && (typeof settings !== 'object' || Array.isArray(settings))) throw new Error('BACKUP_INVALID');
+
+  return {
+    backup: raw as Backup,
+    // Een foto die geen data-URL of platte bestandsnaam is, laten we vallen; het contact krijgt initialen
+    contacts: contacts.map(({ photo, ...c }) => (photo && (photo.startsWith('data:') || isAvatarFileName(photo)) ? { ...c, photo } : c)),
+    settings: settings as Partial<Settings> | null,
+  };
+}
@@ -0,0 +1,22 @@
+// dates.ts
+// Datums zoals ze opgeslagen worden: 'YYYY-MM-DD', of '--MM-DD' als het jaar onbekend is.
+// Gedeeld door de importers, de URL-scheme en de migraties.
+
+// Jaarloze datums controleren we in een schrikkeljaar, zodat 29 februari geldig blijft
+const YEARLESS_CHECK_YEAR = 2000;
+
+// Accepteert YYYY-MM-DD (ook zonder voorloopnullen: 1990-1-5), --MM-DD en --MMDD;
+// null als het geen geldige datum is
+export function normalizeDateISO(raw: string): string | null {
+  const s = raw.trim();
+  const full = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(s);
+  const yearless = /^--(\d{2})-?(\d{2})$/.exec(s);
+  if (!full && !yearless) return null;
+  const y = full ? Number(full[1]) : undefined;
+  const m = Number(full ? full[2] : yearless![1]);
+  const d = Number(full ? full[3] : yearless![2]);
+  const daysInMonth = new Date(y ?? YEARLESS_CHECK_YEAR, m, 0).getDate();
+  if (m < 1 || m > 12 || d < 1 || d > daysInMonth) return null;
+  const mmdd = `${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+  return y === undefined ? `--${mmdd}` : `${String(y).padStart(4, '0')}-${mmdd}`;
+}
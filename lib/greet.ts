@@ -0,0 +1,133 @@
+// greet.ts
+// Felicitatie sturen: direct naar de chat van de persoon (WhatsApp/SMS/e-mail) of via het deelmenu
+import { Linking, Platform, Share } from 'react-native';
+import type { EventType, GreetChannel, GreetingTemplate, Locale, Person } from '@/app/index';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Teksten
+// Sjablonen met {name}, {age}, {years} en {label}; age en years zijn hetzelfde getal
+// (leeftijd of aantal jaar getrouwd), zodat elk sjabloon leest zoals de gebruiker het bedoelt.
+
+export type GreetingVars = { name: string; age: number | null; label?: string };
+
+const PLACEHOLDER_RE = /\{(name|age|years|label)\}/g;
+
+export function renderGreeting(text: string, vars: GreetingVars) {
+  return text.replace(PLACEHOLDER_RE, (_, key: string) => {
+    if (key === 'name') return vars.name;
+    if (key === 'label') return vars.label?.trim() ?? '';
+    return vars.age === null ? '' : String(vars.age);
+  });
+}
+
+// Een sjabloon met {age} zonder bekend jaar (of {label} zonder label) zou een gat laten
+function fits(text: string, vars: GreetingVars) {
+  if (vars.age === null && /\{(age|years)\}/.test(text)) return false;
+  if (!vars.label?.trim() && text.includes('{label}')) return false;
+  return true;
+}
+
+// Vaste volgorde per persoon, elk jaar de volgende (djb2, zelfde als avatarColor)
+function rotationIndex(seed: string, year: number, n: number) {
+  let h = 5381;
+  for (let i = 0; i < seed.length; i++) h = ((h << 5) + h + seed.charCodeAt(i)) | 0;
+  return (Math.abs(h) + year) % n;
+}
+
+// Kiest de tekst: eigen voorkeur van de gebeurtenis, anders willekeurig of roterend
+// uit de passende sjablonen. null = geen sjabloon bruikbaar; de aanroeper valt terug op STR.
+export function pickGreeting(
+  templates: GreetingTemplate[],
+  opts: { type: EventType; locale: Locale; vars: GreetingVars; preferredId?: string; mode: 'random' | 'rotate'; seed: string; year: number }
+): string | null {
+  const preferred = templates.find(tpl => tpl.id === opts.preferredId);
+  if (preferred && preferred.text.trim() && fits(preferred.text, opts.vars)) return renderGreeting(preferred.text, opts.vars);
+
+  const usable = templates.filter(tpl => tpl.type === opts.type && tpl.locale === opts.locale && tpl.text.trim() && fits(tpl.text, opts.vars));
+  if (usable.length === 0) return null;
+  const i = opts.mode === 'random' ? Math.floor(Math.random() * usable.length) : rotationIndex(opts.seed, opts.year, usable.length);
+  return renderGreeting(usable[i].text, opts.vars);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Nummers
+
+// wa.me wil een internationaal nummer zonder '+' of '00'. Een lokaal nummer (06…) kunnen we
+// niet betrouwbaar omzetten zonder landcode te gokken; dan is WhatsApp geen optie.
+export function waNumber(phone?: string) {
+  const raw = (phone ?? '').replace(/[\s().-]/g, '');
+  const m = raw.match(/^(?:\+|00)(\d{6,15})$/);
+  return m ? m[1] : null;
+}
+
+// Voor sms: cijfers en een eventuele '+' aan het begin
+const smsNumber = (phone?: string) => (phone ?? '').replace(/(?!^\+)[^\d]/g, '');
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Kanalen
+
+// Wat bij deze persoon kan, in de volgorde waarin we terugvallen; 'share' kan altijd
+export function channelsFor(p: Pick<Person, 'phone' | 'email'>): GreetChannel[] {
+  const out: GreetChannel[] = [];
+  if (waNumber(p.phone)) out.push('whatsapp');
+  if (smsNumber(p.phone)) out.push('sms');
+  if (p.email?.trim()) out.push('email');
+  out.push('share');
+  return out;
+}
+
+async function openChannel(channel: GreetChannel, p: Pick<Person, 'phone' | 'email'>, msg: string, subject: string) {
+  const text = encodeURIComponent(msg);
+  switch (channel) {
+    case 'whatsapp': {
+      const n = waNumber(p.phone);
+      if (!n) return false;
+      // Alleen als WhatsApp er is; anders opent wa.me een webpagina en vallen we liever terug op sms.
+      // Android 11+ geeft canOpenURL alleen antwoord met een <queries>-regel in het manifest;
+      // daar openen we het schema direct en geldt een weigering als "niet geïnstalleerd".
+      if (Platform.OS === 'android') {
+        await Linking.openURL(`whatsapp://send?phone=${n}&text=${text}`);
+        return true;
+      }
+      if (Platform.OS === 'ios' && !(await Linking.canOpenURL('whatsapp://send'))) return false;
+      await Linking.openURL(`https://wa.me/${n}?text=${text}`);
+      return true;
+    }
+    case 'sms': {
+      const n = smsNumber(p.phone);
+      if (!n) return false;
+      // iOS wil '&body=', Android '?body='
+      await Linking.openURL(`sms:${n}${Platform.OS === 'ios' ? '&' : '?'}body=${text}`);
+      return true;
+    }
+    case 'email': {
+      const to = p.email?.trim();
+      if (!to) return false;
+      await Linking.openURL(`mailto:${encodeURIComponent(to)}?subject=${encodeURIComponent(subject)}&body=${text}`);
+      return true;
+    }
+    case 'share':
+      await Share.share({ message: msg });
+      return true;
+  }
+}
+
+// Probeert het gekozen kanaal en valt daarna terug op de volgende in channelsFor();
+// geeft het kanaal terug dat echt gebruikt is
+export async function sendGreetingAsync(
+  channel: GreetChannel,
+  p: Pick<Person, 'phone' | 'email'>,
+  msg: string,
+  subject: string
+): Promise<GreetChannel> {
+  const order = channelsFor(p);
+  const start = Math.max(0, order.indexOf(channel));
+  for (const ch of order.slice(start)) {
+    try {
+      if (await openChannel(ch, p, msg, subject)) return ch;
+    } catch {
+      // geen app voor dit kanaal → volgende
+    }
+  }
+  return 'share';
+}
@@ -0,0 +1,320 @@
+// ical.ts
+// iCalendar (RFC 5545): één jaarlijks terugkerend hele-dag VEVENT per Person
+import type { EventType, Person, Settings } from '@/app/index';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+export type ICSOptions = Pick<Settings, 'locale' | 'leapDayPolicy' | 'sameDayHour' | 'sameDayMinute'>;
+
+export type ICSSkipReason = 'skipNoName' | 'skipNoDate' | 'skipBadDate' | 'skipNotYearly' | 'skipCancelled';
+
+export type ICSImport = {
+  people: Person[];
+  skipped: { label: string; reason: ICSSkipReason }[];
+};
+
+type ICSProp = { name: string; params: Record<string, string>; value: string };
+
+// Domein achter de UID; samen met Person.id stabiel, zodat agenda's bij een nieuwe import bijwerken
+const UID_DOMAIN = 'mybirthdaytracker.app';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Tekst- en regelopmaak
+
+function escapeText(v: string) {
+  return v.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(ch: string) {
+  const cp = ch.codePointAt(0) ?? 0;
+  return cp < 0x80 ? 1 : cp < 0x800 ? 2 : cp < 0x10000 ? 3 : 4;
+}
+
+// RFC 5545 §3.1: regels max. 75 octets; per code point knippen zodat emoji heel blijven.
+// vCard (RFC 6350 §3.2) vouwt op dezelfde manier.
+export function fold(line: string) {
+  const out: string[] = [];
+  let cur = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const len = utf8Length(ch);
+    if (bytes + len > 75) {
+      out.push(cur);
+      cur = ' ';
+      bytes = 1;
+    }
+    cur += ch;
+    bytes += len;
+  }
+  out.push(cur);
+  return out.join('\r\n');
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function utcStamp(d: Date) {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Events
+
+function parseYmd(iso: string): { y?: number; m: number; d: number } {
+  if (iso.startsWith('--')) {
+    const [m, d] = iso.slice(2).split('-').map(Number);
+    return { y: undefined, m, d };
+  }
+  const [y, m, d] = iso.split('-').map(Number);
+  return { y, m, d };
+}
+
+// 29 feb volgt de leap-day-instelling: laatste dag van februari, of dag 60 (= 1 mrt in gewone jaren)
+function rruleFor(m: number, d: number, opts: ICSOptions) {
+  if (m === 2 && d === 29) {
+    return opts.leapDayPolicy === 'feb28'
+      ? 'RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1'
+      : 'RRULE:FREQ=YEARLY;BYYEARDAY=60';
+  }
+  return 'RRULE:FREQ=YEARLY';
+}
+
+function summaryFor(p: Person, L: ICSOptions['locale']) {
+  if (p.type === 'birthday') return L === 'nl' ? `🎂 ${p.name} jarig` : `🎂 ${p.name}'s birthday`;
+  if (p.type === 'anniversary') return L === 'nl' ? `💍 Trouwdag ${p.name}` : `💍 ${p.name} anniversary`;
+  return `🎉 ${p.name}${p.label?.trim() ? ` – ${p.label.trim()}` : ''}`;
+}
+
+function descriptionFor(p: Person, y: number | undefined, L: ICSOptions['locale']) {
+  if (y === undefined) return null;
+  if (p.type === 'birthday') return L === 'nl' ? `Geboren in ${y}` : `Born in ${y}`;
+  if (p.type === 'anniversary') return L === 'nl' ? `Getrouwd in ${y}` : `Married in ${y}`;
+  return L === 'nl' ? `Sinds ${y}` : `Since ${y}`;
+}
+
+function eventLines(p: Person, opts: ICSOptions, stamp: string) {
+  const { y, m, d } = parseYmd(p.dateISO);
+  // Zonder geboortejaar starten we in 2000: een schrikkeljaar, dus ook 29 feb is een geldige start
+  const start = `${y ?? 2000}${pad(m)}${pad(d)}`;
+  const summary = summaryFor(p, opts.locale);
+  const description = descriptionFor(p, y, opts.locale);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${p.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${start}`,
+    'DURATION:P1D',
+    rruleFor(m, d, opts),
+    `SUMMARY:${escapeText(summary)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    'TRANSP:TRANSPARENT',
+    // Eigen velden, zodat een re-import het type en het (on)bekende jaar exact terugvindt
+    `X-MBT-NAME:${escapeText(p.name)}`,
+    `X-MBT-TYPE:${p.type}`,
+    `X-MBT-DATE:${p.dateISO}`,
+    ...(p.label?.trim() ? [`X-MBT-LABEL:${escapeText(p.label.trim())}`] : []),
+    ...(p.contactId ? [`X-MBT-CONTACT:${p.contactId}`] : []),
+  ];
+
+  // Herinnering op hetzelfde tijdstip als de melding in de app (t.o.v. middernacht van de dag)
+  if (p.sameDayReminder ?? true) {
+    const hour = p.reminderHour ?? opts.sameDayHour;
+    const minute = p.reminderMinute ?? opts.sameDayMinute;
+    const offset = hour || minute ? `PT${hour ? `${hour}H` : ''}${minute ? `${minute}M` : ''}` : 'PT0S';
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(summary)}`,
+      `TRIGGER;RELATED=START:${offset}`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Publieke API
+
+export function toICS(people: Person[], opts: ICSOptions, now = new Date()) {
+  const stamp = utcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//My Birthday Tracker//${opts.locale.toUpperCase()}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:My Birthday Tracker',
+    ...people.flatMap(p => eventLines(p, opts, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Importeren
+
+export function looksLikeICS(text: string) {
+  return /^\s*BEGIN:VCALENDAR/i.test(text);
+}
+
+function unfold(text: string) {
+  return text.replace(/\r?\n[ \t]/g, '');
+}
+
+function unescapeText(v: string) {
+  return v.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function parseLine(line: string): ICSProp | null {
+  let inQ = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQ = !inQ;
+    else if (line[i] === ':' && !inQ) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// DTSTART;VALUE=DATE:19610825, DTSTART:19610825T090000Z, DTSTART;TZID=…:19610825T090000
+function parseICSDate(raw: string) {
+  const m = /^(\d{4})(\d{2})(\d{2})/.exec(raw.trim());
+  if (!m) return null;
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  if (mo < 1 || mo > 12 || d < 1 || d > new Date(y, mo, 0).getDate()) return null;
+  return { y, m: mo, d };
+}
+
+// X-MBT-DATE uit de eigen export: YYYY-MM-DD of --MM-DD; null als het geen geldige datum is
+function parseOwnDate(raw: string) {
+  const full = /^(\d{4})-(\d{2})-(\d{2})$/.exec(raw);
+  const yearless = /^--(\d{2})-(\d{2})$/.exec(raw);
+  if (!full && !yearless) return null;
+  const m = Number(full ? full[2] : yearless![1]);
+  const d = Number(full ? full[3] : yearless![2]);
+  if (m < 1 || m > 12 || d < 1 || d > new Date(full ? Number(full[1]) : 2000, m, 0).getDate()) return null;
+  return raw;
+}
+
+// Trefwoorden (nl/en) in de titel; emoji tellen ook mee
+const BIRTHDAY_WORDS = /verjaardag|jarig|birthday|b-?day|geboren|🎂|🎈/i;
+const ANNIVERSARY_WORDS = /trouwdag|huwelijk|getrouwd|anniversary|wedding|💍/i;
+
+function guessType(summary: string): EventType {
+  if (BIRTHDAY_WORDS.test(summary)) return 'birthday';
+  if (ANNIVERSARY_WORDS.test(summary)) return 'anniversary';
+  return 'other';
+}
+
+// "🎂 Anna's birthday", "Verjaardag van Anna", "Trouwdag: Jan & Els" → de naam zelf
+function nameFromSummary(summary: string) {
+  const name = summary
+    .replace(/[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}\uFE0F]/gu, ' ')
+    .replace(new RegExp(BIRTHDAY_WORDS.source, 'gi'), ' ')
+    .replace(new RegExp(ANNIVERSARY_WORDS.source, 'gi'), ' ')
+    .replace(/['’]s\b/gi, ' ')
+    .replace(/\(\d{4}\)/g, ' ')
+    .replace(/^\s*(van|of|de|the)\b/i, ' ')
+    .replace(/[\s:–-]+$|^[\s:–-]+/g, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  return name || summary.trim();
+}
+
+// Een jaartal in de tekst ("(1961)", "geboren 1961", "born in 1961"); de DTSTART van een
+// agenda-item is meestal de dag waarop het item is aangemaakt, niet het geboortejaar
+function yearFromText(text: string) {
+  const m = /\((\d{4})\)|(?:geboren|getrouwd|born|married)(?: in)?\s+(\d{4})/i.exec(text);
+  const y = m ? Number(m[1] ?? m[2]) : NaN;
+  return y > 1800 && y <= new Date().getFullYear() ? y : undefined;
+}
+
+function eventToPerson(props: ICSProp[], newId: () => string): Person | { reason: ICSSkipReason; label: string } {
+  const get = (name: string) => props.find(p => p.name === name);
+  const summary = unescapeText(get('SUMMARY')?.value ?? '').trim();
+  const label = summary || '?';
+
+  if (get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') return { reason: 'skipCancelled', label };
+  const rrule = get('RRULE')?.value.toUpperCase() ?? '';
+  if (!/(^|;)FREQ=YEARLY(;|$)/.test(rrule)) return { reason: 'skipNotYearly', label };
+  const dtstart = get('DTSTART');
+  if (!dtstart) return { reason: 'skipNoDate', label };
+  const date = parseICSDate(dtstart.value);
+  if (!date) return { reason: 'skipBadDate', label };
+
+  const uid = get('UID')?.value.trim();
+  const mmdd = `${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`;
+
+  // Eigen export: type, datum (incl. onbekend jaar), naam en id exact terugzetten
+  const ownType = get('X-MBT-TYPE')?.value.trim() as EventType | undefined;
+  const ownDate = get('X-MBT-DATE')?.value.trim();
+  if (ownType && ['birthday', 'anniversary', 'other'].includes(ownType) && ownDate) {
+    const dateISO = parseOwnDate(ownDate);
+    if (!dateISO) return { reason: 'skipBadDate', label };
+    const ownLabel = get('X-MBT-LABEL');
+    return {
+      id: uid?.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -UID_DOMAIN.length - 1) : uid || newId(),
+      name: unescapeText(get('X-MBT-NAME')?.value ?? '') || nameFromSummary(summary),
+      type: ownType,
+      dateISO,
+      label: ownLabel ? unescapeText(ownLabel.value) : undefined,
+      contactId: get('X-MBT-CONTACT')?.value.trim() || undefined,
+      sameDayReminder: props.some(p => p.name === 'BEGIN' && p.value.toUpperCase() === 'VALARM'),
+    };
+  }
+
+  if (!summary) return { reason: 'skipNoName', label };
+  const type = guessType(summary);
+  const year = yearFromText(`${summary} ${unescapeText(get('DESCRIPTION')?.value ?? '')}`);
+  return {
+    id: uid || newId(),
+    name: nameFromSummary(summary),
+    type,
+    dateISO: year === undefined ? `--${mmdd}` : `${year}-${mmdd}`,
+    sameDayReminder: true,
+  };
+}
+
+// Alleen jaarlijks terugkerende VEVENTs worden een Person; de rest komt in `skipped` met reden
+export function parseICS(text: string, newId: () => string): ICSImport {
+  const people: Person[] = [];
+  const skipped: ICSImport['skipped'] = [];
+
+  let event: ICSProp[] | null = null;
+  let nested = 0; // VALARM e.d. binnen een VEVENT: eigen DESCRIPTION/TRIGGER negeren
+  for (const line of unfold(text).split(/\r?\n/)) {
+    const prop = parseLine(line.trim());
+    if (!prop) continue;
+    const value = prop.value.trim().toUpperCase();
+
+    if (prop.name === 'BEGIN' && value === 'VEVENT') { event = []; nested = 0; continue; }
+    if (!event) continue;
+    if (prop.name === 'BEGIN') { nested++; event.push(prop); continue; }
+    if (prop.name === 'END' && value !== 'VEVENT') { nested = Math.max(0, nested - 1); continue; }
+    if (prop.name !== 'END') {
+      if (nested === 0) event.push(prop);
+      continue;
+    }
+
+    const props: ICSProp[] = event;
+    event = null;
+
+    // Uitzonderingen op een reeks (RECURRENCE-ID) horen bij een event dat we al hebben
+    if (props.some(p => p.name === 'RECURRENCE-ID')) continue;
+
+    const res = eventToPerson(props, newId);
+    if ('reason' in res) skipped.push(res);
+    else if (!people.some(p => p.id === res.id)) people.push(res);
+  }
+
+  return { people, skipped };
+}
@@ -0,0 +1,220 @@
+// migrations.ts
+// Versioned opslag: schema-versie + stapsgewijze migraties die bij het opstarten draaien
+import { createBackup, type Backup } from './backup';
+import { normalizeDateISO } from './dates';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+
+// Opslag-key → geparste JSON-waarde
+export type StoredData = Record<string, unknown>;
+
+// Wat een stap niet kon meenemen; de gebruiker krijgt het te zien (de snapshot heeft alles nog)
+export type MigrationReport = { dropped: number };
+
+export type Migration = {
+  version: number; // schema-versie ná deze stap
+  description: string;
+  up(data: StoredData, report: MigrationReport): StoredData;
+};
+
+// Minimale async toegang tot de opslag (MMKV of AsyncStorage)
+export type MigrationIO = {
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+};
+
+export type MigrationResult =
+  | { status: 'current'; version: number; data: StoredData }
+  // dropped = records die niet te redden waren (bv. een onleesbare datum)
+  | { status: 'migrated'; from: number; to: number; data: StoredData; snapshotKey: string; snapshot: Backup; dropped: number }
+  // error = code zoals 'SCHEMA_TOO_NEW' / 'STORAGE_CORRUPT' / 'PEOPLE_INVALID'
+  | { status: 'failed'; from: number; error: string; snapshot: Backup | null };
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Keys
+
+export const SCHEMA_KEY = 'schema.version';
+export const SNAPSHOT_KEY_PREFIX = 'snapshot.pre-migration.v';
+
+// Elke key die ooit data bevatte; een migratie die een key hernoemt voegt de nieuwe hier toe
+const STORED_KEYS = ['people.v5', 'settings.v5', 'contacts.v6'];
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Stappen (nooit wijzigen na release; altijd een nieuwe stap toevoegen)
+
+const EVENT_TYPES = ['birthday', 'anniversary', 'other'];
+
+const isPositiveInt = (n: unknown) => typeof n === 'number' && Number.isInteger(n) && n > 0;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Data van vóór de schema-versie opschonen',
+    up(data, report) {
+      const out = { ...data };
+
+      const people = data['people.v5'];
+      if (people !== undefined) {
+        if (!Array.isArray(people)) throw new Error('PEOPLE_INVALID');
+        const seen = new Set<string>();
+        // Oude CSV-imports bewaarden datums ongecontroleerd (1990-1-5); die zetten we recht.
+        // Alleen wat echt onleesbaar is valt af, en dat telt mee in het rapport.
+        const valid = people
+          .filter((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.dateISO === 'string')
+          .map((p: any) => ({ ...p, dateISO: normalizeDateISO(p.dateISO) }))
+          .filter((p: any) => p.dateISO !== null);
+        const unique = valid.filter((p: any) => !seen.has(p.id) && !!seen.add(p.id));
+        report.dropped += people.length - valid.length;
+        out['people.v5'] = unique.map((p: any) => ({
+          ...p,
+          type: EVENT_TYPES.includes(p.type) ? p.type : 'birthday',
+          leadDays: Array.isArray(p.leadDays) ? p.leadDays.filter(isPositiveInt) : undefined,
+        }));
+      }
+
+      const settings = data['settings.v5'];
+      if (settings !== undefined) {
+        if (!settings || typeof settings !== 'object' || Array.isArray(settings)) throw new Error('SETTINGS_INVALID');
+        const s: any = { ...settings };
+        // Ongeldige waarden weglaten; de loader vult ze aan met de standaardwaarden
+        if (s.leapDayPolicy !== 'feb28' && s.leapDayPolicy !== 'mar1') delete s.leapDayPolicy;
+        if (s.defaultLeadDays !== undefined) {
+          if (Array.isArray(s.defaultLeadDays)) s.defaultLeadDays = s.defaultLeadDays.filter(isPositiveInt);
+          else delete s.defaultLeadDays;
+        }
+        out['settings.v5'] = s;
+      }
+
+      return out;
+    },
+  },
+  {
+    version: 2,
+    description: 'people.v5 (één rij per gebeurtenis) → contacts.v6 (contact met gebeurtenissen)',
+    up(data) {
+      const out = { ...data };
+      const people = data['people.v5'];
+      if (people === undefined) return out;
+      if (!Array.isArray(people)) throw new Error('PEOPLE_INVALID');
+
+      // Eén contact per rij, met de id van die rij: twee mensen met dezelfde naam zijn niet per se
+      // dezelfde persoon, en samenvoegen kan hier niet meer ongedaan worden gemaakt.
+      out['contacts.v6'] = (people as any[]).map(p => ({
+        id: p.id,
+        name: p.name.trim(),
+        ...(Array.isArray(p.tags) && p.tags.length ? { tags: p.tags } : {}),
+        events: [{
+          id: p.id,
+          type: p.type,
+          dateISO: p.dateISO,
+          label: p.label,
+          sameDayReminder: p.sameDayReminder,
+          leadDays: p.leadDays,
+          reminderHour: p.reminderHour,
+          reminderMinute: p.reminderMinute,
+        }],
+      }));
+      delete out['people.v5'];
+      return out;
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Losse data (bv. uit een back-up) naar het huidige schema brengen; zelfde stappen als bij het opstarten.
+// Gooit bij ongeldige data, net als de stappen zelf.
+export function migrateData(data: StoredData): StoredData {
+  const raw = data[SCHEMA_KEY];
+  const from = raw === undefined || raw === null ? 0 : Number(raw);
+  if (!Number.isInteger(from) || from < 0) throw new Error('SCHEMA_INVALID');
+  if (from > SCHEMA_VERSION) throw new Error('SCHEMA_TOO_NEW');
+
+  let out: StoredData = { ...data };
+  delete out[SCHEMA_KEY];
+  // Een back-up toont zelf al wat er teruggezet wordt; het rapport is hier niet nodig
+  const report: MigrationReport = { dropped: 0 };
+  for (const m of MIGRATIONS) {
+    if (m.version > from) out = m.up(out, report);
+  }
+  return out;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Pipeline
+
+async function readAll(io: MigrationIO) {
+  const raw: Record<string, string> = {};
+  for (const k of STORED_KEYS) {
+    const v = await io.read(k);
+    if (v !== null) raw[k] = v;
+  }
+  return raw;
+}
+
+function parseAll(raw: Record<string, string>): StoredData {
+  const data: StoredData = {};
+  for (const [k, v] of Object.entries(raw)) {
+    try {
+      data[k] = JSON.parse(v);
+    } catch {
+      throw new Error('STORAGE_CORRUPT');
+    }
+  }
+  return data;
+}
+
+// Leest alle keys, migreert indien nodig en geeft de actuele data terug.
+// Er wordt pas geschreven als alle stappen gelukt zijn; daarvóór komt er een snapshot
+// van de oude data in SNAPSHOT_KEY_PREFIX + oude versie. Gooit nooit: fouten komen terug als 'failed'.
+export async function migrateStorage(io: MigrationIO, appVersion: string, now = new Date()): Promise<MigrationResult> {
+  let from = 0;
+  let snapshot: Backup | null = null;
+  try {
+    const rawVersion = await io.read(SCHEMA_KEY);
+    const raw = await readAll(io);
+    // Onleesbare waarden komen letterlijk (als string) in de snapshot
+    const snapshotData: StoredData = { [SCHEMA_KEY]: rawVersion };
+    for (const [k, v] of Object.entries(raw)) {
+      try { snapshotData[k] = JSON.parse(v); } catch { snapshotData[k] = v; }
+    }
+    snapshot = createBackup(snapshotData, appVersion, now);
+
+    // Geen versie-record: data van vóór de versioning (of een lege, nieuwe installatie)
+    from = rawVersion === null ? 0 : Number(rawVersion);
+    if (!Number.isInteger(from) || from < 0) throw new Error('SCHEMA_INVALID');
+    if (from > SCHEMA_VERSION) throw new Error('SCHEMA_TOO_NEW');
+
+    let data = parseAll(raw);
+    if (Object.keys(raw).length === 0) {
+      if (from !== SCHEMA_VERSION) await io.write(SCHEMA_KEY, String(SCHEMA_VERSION));
+      return { status: 'current', version: SCHEMA_VERSION, data };
+    }
+    if (from === SCHEMA_VERSION) return { status: 'current', version: from, data };
+
+    const snapshotKey = SNAPSHOT_KEY_PREFIX + from;
+    await io.write(snapshotKey, JSON.stringify(snapshot));
+
+    const report: MigrationReport = { dropped: 0 };
+    for (const m of MIGRATIONS) {
+      if (m.version <= from) continue;
+      console.log(`Migratie → v${m.version}: ${m.description}`);
+      data = m.up(data, report);
+    }
+
+    for (const k of Object.keys(raw)) {
+      if (!(k in data)) await io.remove(k);
+    }
+    for (const [k, v] of Object.entries(data)) {
+      if (v !== undefined) await io.write(k, JSON.stringify(v));
+    }
+    await io.write(SCHEMA_KEY, String(SCHEMA_VERSION));
+    return { status: 'migrated', from, to: SCHEMA_VERSION, data, snapshotKey, snapshot, dropped: report.dropped };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.error('Migratie mislukt', error);
+    return { status: 'failed', from, error, snapshot };
+  }
+}
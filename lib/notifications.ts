@@ -0,0 +1,849 @@
+// notifications.ts
+import { addDays, startOfDay } from 'date-fns';
+import * as BackgroundTask from 'expo-background-task';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types die je ook in index.tsx gebruikt
+export type EventType = 'birthday' | 'anniversary' | 'other';
+export type Locale = 'nl' | 'en';
+export type LeapDayPolicy = 'feb28' | 'mar1';
+
+export type Person = {
+  id: string;
+  name: string;
+  type: EventType;
+  dateISO: string; // YYYY-MM-DD (geboortedatum/jubileumdatum), of --MM-DD als het jaar onbekend is
+  label?: string;
+  sameDayReminder?: boolean; // optioneel per-persoon toggle
+  leadDays?: number[]; // herinneringen N dagen vooraf; undefined = settings.defaultLeadDays
+  reminderHour?: number; // eigen tijdstip; undefined = settings.sameDayHour/sameDayMinute
+  reminderMinute?: number;
+  tags?: string[]; // namen uit settings.tags
+  photoUri?: string; // lokaal bestand van de contactfoto
+  contactId?: string;
+  giftIdeas?: number; // opgeslagen cadeau-ideeën van het contact
+  congratulated?: number[]; // jaren waarin al gefeliciteerd is; gesnoozede meldingen vervallen dan
+};
+
+export type Tag = {
+  name: string;
+  muted?: boolean; // geen meldingen voor iedereen met deze tag
+  leadDays?: number[]; // undefined = settings.defaultLeadDays
+};
+
+export type Settings = {
+  weeklySummaryEnabled: boolean;
+  weeklySummaryWeekday: number; // 1=Mon..7=Sun
+  weeklySummaryHour: number;
+  weeklySummaryMinute: number;
+  sameDayHour: number;
+  sameDayMinute: number;
+  locale: Locale;
+  leapDayPolicy: LeapDayPolicy; // 29 feb in gewone jaren: 28 feb of 1 mrt
+  defaultLeadDays: number[]; // voor personen zonder eigen leadDays
+  tags: Tag[];
+  notificationPhotos: boolean; // foto als bijlage bij de melding op de dag zelf (iOS)
+};
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Notification handler (vereist om banners te tonen; foreground gedrag)
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Permissions + Android kanalen
+export async function ensureNotifPerms(): Promise<boolean> {
+  if (Platform.OS === 'web') return ensureWebNotifPerms();
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted') {
+    const req = await Notifications.requestPermissionsAsync();
+    return req.status === 'granted';
+  }
+  return true;
+}
+
+export async function ensureAndroidChannels() {
+  if (Platform.OS !== 'android') return;
+
+  await Notifications.setNotificationChannelAsync('daily-reminders', {
+    name: 'Daily Reminders',
+    importance: Notifications.AndroidImportance.HIGH,
+    sound: 'default',
+  });
+  await Notifications.setNotificationChannelAsync('weekly-summary', {
+    name: 'Weekly Summary',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    sound: 'default',
+  });
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Acties onder de melding van de dag zelf
+const DAILY_CATEGORY = 'daily-actions';
+
+export const ACTION_SNOOZE_HOUR = 'snooze-1h';
+export const ACTION_SNOOZE_TONIGHT = 'snooze-tonight';
+export const ACTION_MARK_DONE = 'mark-done';
+export const ACTION_SEND_GREETING = 'send-greeting';
+
+const TONIGHT_HOUR = 20;
+
+// Knopteksten liggen vast bij het registreren, dus opnieuw registreren als de taal wijzigt.
+// Alleen Android geeft acties zonder de app te openen door aan de achtergrond-task; op iOS
+// openen alle acties de app, anders blijft een snooze of vinkje zonder JS liggen.
+export async function ensureNotificationCategories(L: Locale) {
+  if (Platform.OS === 'web') return;
+  const background = Platform.OS === 'android';
+  const nl = L === 'nl';
+  try {
+    await Notifications.setNotificationCategoryAsync(DAILY_CATEGORY, [
+      { identifier: ACTION_SNOOZE_HOUR, buttonTitle: nl ? 'Over 1 uur' : 'Snooze 1h', options: { opensAppToForeground: !background } },
+      { identifier: ACTION_SNOOZE_TONIGHT, buttonTitle: nl ? 'Vanavond' : 'Remind me tonight', options: { opensAppToForeground: !background } },
+      { identifier: ACTION_MARK_DONE, buttonTitle: nl ? 'Gefeliciteerd ✓' : 'Mark as congratulated', options: { opensAppToForeground: !background } },
+      { identifier: ACTION_SEND_GREETING, buttonTitle: nl ? 'WhatsApp sturen' : 'Send WhatsApp', options: { opensAppToForeground: true } },
+    ]);
+  } catch (e) {
+    console.warn('ensureNotificationCategories failed', String(e));
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Datumhelpers
+function parseYmd(iso: string): { y?: number; m: number; d: number } {
+  if (iso.startsWith('--')) {
+    const [m, d] = iso.slice(2).split('-').map(Number);
+    return { y: undefined, m, d };
+  }
+  const [y, m, d] = iso.split('-').map(Number);
+  return { y, m, d };
+}
+function setTimeToDate(date: Date, h: number, m: number) {
+  const d = new Date(date);
+  d.setHours(h, m, 0, 0);
+  return d;
+}
+const isLeapYear = (y: number) => (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+// Zelfde regel als in index.tsx: 29 feb valt in gewone jaren op 28 feb of 1 mrt (policy)
+function occurrenceInYear(iso: string, year: number, leapDay: LeapDayPolicy) {
+  const { m, d } = parseYmd(iso);
+  if (m === 2 && d === 29 && !isLeapYear(year)) {
+    return leapDay === 'feb28'
+      ? new Date(year, 1, 28, 12, 0, 0, 0)
+      : new Date(year, 2, 1, 12, 0, 0, 0);
+  }
+  return new Date(year, (m ?? 1) - 1, d ?? 1, 12, 0, 0, 0);
+}
+function nextOccurrence(iso: string, ref: Date, leapDay: LeapDayPolicy) {
+  const thisYear = occurrenceInYear(iso, ref.getFullYear(), leapDay);
+  return thisYear >= new Date(ref.getFullYear(), ref.getMonth(), ref.getDate())
+    ? thisYear
+    : occurrenceInYear(iso, ref.getFullYear() + 1, leapDay);
+}
+function ageOn(iso: string, at: Date, leapDay: LeapDayPolicy): number | null {
+  const { y } = parseYmd(iso);
+  if (y === undefined) return null;
+  let age = at.getFullYear() - y;
+  const occ = occurrenceInYear(iso, at.getFullYear(), leapDay);
+  const had = (at.getMonth() > occ.getMonth()) || ((at.getMonth() === occ.getMonth()) && at.getDate() >= occ.getDate());
+  return Math.max(0, had ? age : age - 1);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Tekstopbouw
+
+// Zonder bekend jaar noemen we alleen het soort gebeurtenis i.p.v. een leeftijd
+function eventWord(p: Person, L: Locale) {
+  if (p.type === 'birthday') return L === 'nl' ? 'verjaardag' : 'birthday';
+  if (p.type === 'anniversary') return L === 'nl' ? 'trouwdag' : 'anniversary';
+  return p.label?.trim() || (L === 'nl' ? 'feestdag' : 'celebration');
+}
+
+function buildDailyBody(atDate: Date, persons: Person[], L: Locale, leapDay: LeapDayPolicy): string | null {
+  if (persons.length === 0) return null;
+  const names = persons.map(p => {
+    const emoji = p.type === 'birthday' ? '🎂' : p.type === 'anniversary' ? '💍' : '🎉';
+    const yrs = ageOn(p.dateISO, atDate, leapDay);
+    const yrsText = yrs === null ? eventWord(p, L) : L === 'nl' ? `${yrs} jaar` : `${yrs} years`;
+    return `${p.name} ${emoji} ${yrsText}`;
+  });
+  if (names.length === 1) {
+    return L === 'nl' ? `🎂 Feest vandaag! 🎂 ${names[0]}` : `🎂 Time to celebrate! 🎂: ${names[0]}`;
+  }
+  const last = names.pop();
+  return L === 'nl'
+    ? `Feliciteer vandaag: ${names.join(', ')} en ${last}`
+    : `Send your best wishes to: ${names.join(', ')} and ${last}`;
+}
+
+function buildWeeklyBody(startDate: Date, people: Person[], L: Locale, leapDay: LeapDayPolicy): string | null {
+  if (people.length === 0) return null;
+  const map: Record<string, Person[]> = {};
+  people.forEach(p => {
+    const day = nextOccurrence(p.dateISO, startDate, leapDay);
+    const key = new Date(day.getFullYear(), day.getMonth(), day.getDate()).toISOString();
+    (map[key] ??= []).push(p);
+  });
+  const dayNames = L === 'nl' ? ['zo','ma','di','wo','do','vr','za'] : ['Sun','Mon','Tue','Wed','Thu','Fri','Sat'];
+  const entries: string[] = [];
+  Object.keys(map).sort().forEach(key => {
+    const day = new Date(key);
+    const dn = dayNames[day.getDay()];
+    const month = L === 'nl'
+      ? `${day.getDate()} ${day.toLocaleDateString('nl-NL', { month: 'short' })}`
+      : `${day.toLocaleDateString('en-US', { month: 'short' })} ${day.getDate()}`;
+    const txt = map[key].map(p => {
+      const emoji = p.type === 'birthday' ? '🎂' : p.type === 'anniversary' ? '💍' : '🎉';
+      const yrs = ageOn(p.dateISO, day, leapDay);
+      return `${p.name} (${emoji} ${yrs === null ? eventWord(p, L) : yrs})`;
+    }).join(', ');
+    entries.push(`${dn} ${month}: ${txt}`);
+  });
+  const summary = L === 'nl' ? `Deze week: ${entries.join('; ')}` : `This week: ${entries.join('; ')}`;
+
+  // Ideeën tellen per contact, niet per gebeurtenis
+  const ideas = new Map(people.map(p => [p.contactId ?? p.id, p.giftIdeas ?? 0]));
+  const total = Array.from(ideas.values()).reduce((a, b) => a + b, 0);
+  if (total === 0) return summary;
+  const giftLine = L === 'nl'
+    ? `🎁 ${total} cadeau-${total === 1 ? 'idee' : 'ideeën'} opgeslagen`
+    : `🎁 ${total} gift ${total === 1 ? 'idea' : 'ideas'} saved`;
+  return `${summary}\n${giftLine}`;
+}
+
+// "Anna wordt over 3 dagen 40" / "Anna turns 40 in 3 days"
+function buildAdvanceLine(p: Person, occ: Date, daysBefore: number, L: Locale, leapDay: LeapDayPolicy) {
+  const yrs = ageOn(p.dateISO, occ, leapDay);
+  const when = L === 'nl'
+    ? (daysBefore === 1 ? 'morgen' : `over ${daysBefore} dagen`)
+    : (daysBefore === 1 ? 'tomorrow' : `in ${daysBefore} days`);
+  if (p.type === 'birthday' && yrs !== null) {
+    return L === 'nl' ? `${p.name} wordt ${when} ${yrs}` : `${p.name} turns ${yrs} ${when}`;
+  }
+  const yrsText = yrs === null ? '' : L === 'nl' ? ` (${yrs} jaar)` : ` (${yrs} years)`;
+  return `${p.name}: ${eventWord(p, L)} ${when}${yrsText}`;
+}
+
+function buildAdvanceBody(items: { p: Person; occ: Date; daysBefore: number }[], L: Locale, leapDay: LeapDayPolicy): string | null {
+  if (items.length === 0) return null;
+  return items
+    .sort((a, b) => a.daysBefore - b.daysBefore)
+    .map(it => buildAdvanceLine(it.p, it.occ, it.daysBefore, L, leapDay))
+    .join('\n');
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Veilig schedulen: voorkom 'immediate fire' door mis-parse/afronding in SDK 52
+async function scheduleSafe(req: Notifications.NotificationRequestInput) {
+  // NB: trigger mag een Date zijn of een schedulable trigger (DATE, DAILY, etc.)
+  const trigger = req.trigger as Notifications.SchedulableNotificationTriggerInput | Date | number;
+
+  // Probeer te achterhalen wat de native laag als "volgende tijd" ziet
+  let next: number | null = null;
+  try {
+    next = await Notifications.getNextTriggerDateAsync(trigger as any);
+  } catch {
+    // Sommige vormen (Date/number) kunnen throwen op oudere clients; negeren
+  }
+
+  const targetMs =
+    trigger instanceof Date ? trigger.getTime()
+    : typeof trigger === 'number' ? trigger
+    : trigger && 'date' in trigger ? new Date(trigger.date).getTime()
+    : next ?? 0;
+
+  // 1s marge om "nu" (afrondingsfouten/klok drift) te ontwijken
+  if (!targetMs || targetMs <= Date.now() + 1000) {
+    // niets plannen; dit zou anders "fire now" kunnen geven
+    return null;
+  }
+
+  return Notifications.scheduleNotificationAsync(req);
+}
+
+// iOS verplaatst een bijlage naar zijn eigen opslag; geef daarom een kopie mee,
+// anders verdwijnt de contactfoto uit de app
+async function withAttachmentCopies(req: Notifications.NotificationRequestInput): Promise<Notifications.NotificationRequestInput> {
+  const attachments = req.content.attachments;
+  if (!attachments?.length || !req.identifier) return req;
+  const copies = [];
+  for (const [i, a] of attachments.entries()) {
+    if (!a.url) continue;
+    const to = `${FileSystem.cacheDirectory}notif-${req.identifier.replace(/[^\w-]/g, '_')}-${i}.jpg`;
+    try {
+      await FileSystem.copyAsync({ from: a.url, to });
+      copies.push({ ...a, url: to });
+    } catch {
+      // foto niet (meer) leesbaar: melding zonder bijlage
+    }
+  }
+  return { ...req, content: { ...req.content, attachments: copies } };
+}
+
+// Expliciete DATE-trigger; een kale Date is deprecated en geeft een warning per melding
+function dateTrigger(at: Date): Notifications.DateTriggerInput {
+  return { type: Notifications.SchedulableTriggerInputTypes.DATE, date: at };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Planner: eerst alles berekenen, dan binnen het platformbudget inplannen
+
+// iOS bewaart maximaal 64 geplande lokale meldingen en laat de rest stil vallen; we houden
+// een paar plekken vrij. Android kent geen harde grens, maar sommige toestellen kappen rond 500 af.
+const NOTIFICATION_BUDGET = Platform.OS === 'ios' ? 60 : 400;
+// Plekken die de planner vrijlaat voor gesnoozede meldingen (die plant de planner zelf niet)
+const SNOOZE_RESERVE = 4;
+const SNOOZE_PREFIX = 'snooze:';
+// De horizon mag ruim zijn: het budget bepaalt hoeveel er daadwerkelijk ingepland wordt
+const PLAN_HORIZON_DAYS = 180;
+const PLAN_HORIZON_WEEKS = 26;
+
+type PlannedNotification = {
+  id: string; // stabiel per soort/dag/tijd, bv. 'daily:2025-08-25:09:00'
+  at: Date;
+  priority: number; // bij gelijke tijd: 0 = dag zelf, 1 = vooraf, 2 = weekoverzicht
+  sig: string; // hash van de inhoud; gelijk = melding hoeft niet opnieuw
+  request: Notifications.NotificationRequestInput;
+};
+
+// djb2; alleen om inhoud te vergelijken, niet cryptografisch
+function hashString(str: string) {
+  let h = 5381;
+  for (let i = 0; i < str.length; i++) h = ((h << 5) + h + str.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+}
+
+function dayKey(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Stabiele identifier + inhoudshash, zodat herplannen alleen gewijzigde meldingen vervangt
+function planned(id: string, at: Date, priority: number, content: Notifications.NotificationContentInput): PlannedNotification {
+  // attachments: foto aan/uit of een andere foto moet de geplande melding ook vervangen;
+  // categoryIdentifier: meldingen van vóór de actieknoppen krijgen die zo alsnog
+  const sig = hashString(JSON.stringify([at.getTime(), content.title, content.body, content.data, content.attachments?.map(a => a.url), content.categoryIdentifier]));
+  return {
+    id,
+    at,
+    priority,
+    sig,
+    request: { identifier: id, content: { ...content, data: { ...content.data, sig } }, trigger: dateTrigger(at) },
+  };
+}
+
+type AheadItem = { p: Person; occ: Date; daysBefore: number };
+
+function tagsOf(p: Person, settings: Settings) {
+  return (settings.tags ?? []).filter(tag => p.tags?.includes(tag.name));
+}
+
+// Eén gedempte tag is genoeg om iemand stil te houden
+function isMuted(p: Person, settings: Settings) {
+  return tagsOf(p, settings).some(tag => tag.muted);
+}
+
+// Krijgt deze persoon überhaupt een melding (op de dag zelf of vooraf)?
+export function hasReminders(p: Person, settings: Settings) {
+  if (isMuted(p, settings)) return false;
+  return (p.sameDayReminder ?? true) || effectiveLeadDays(p, settings).length > 0;
+}
+
+// Eigen leadDays > die van de tags (samengevoegd) > de standaard
+function effectiveLeadDays(p: Person, settings: Settings) {
+  if (p.leadDays) return p.leadDays;
+  const fromTags = tagsOf(p, settings).filter(tag => tag.leadDays).flatMap(tag => tag.leadDays!);
+  if (fromTags.length) return Array.from(new Set(fromTags)).sort((a, b) => a - b);
+  return settings.defaultLeadDays ?? [];
+}
+
+// Tijdstip waarop iemands meldingen afgaan: eigen tijd of de algemene dagmelding
+function effectiveTime(p: Person, settings: Settings) {
+  return {
+    hour: p.reminderHour ?? settings.sameDayHour,
+    minute: p.reminderMinute ?? settings.sameDayMinute,
+  };
+}
+
+// Groepeer per tijdstip ('HH:MM'), zodat iedereen met dezelfde tijd één melding deelt
+function groupByTime<T>(items: T[], personOf: (it: T) => Person, settings: Settings) {
+  const groups = new Map<string, { key: string; hour: number; minute: number; items: T[] }>();
+  for (const it of items) {
+    const { hour, minute } = effectiveTime(personOf(it), settings);
+    const key = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+    if (!groups.has(key)) groups.set(key, { key, hour, minute, items: [] });
+    groups.get(key)!.items.push(it);
+  }
+  return Array.from(groups.values());
+}
+
+function planDaily(settings: Settings, people: Person[], L: Locale, now: Date): PlannedNotification[] {
+  const start = startOfDay(now);
+  const end = addDays(start, PLAN_HORIZON_DAYS);
+  const leapDay = settings.leapDayPolicy;
+
+  // Per dag: wie viert het vandaag en wie krijgt een vooraf-herinnering
+  const byDay = new Map<number, { day: Date; todays: Person[]; ahead: AheadItem[] }>();
+  const slot = (d: Date) => {
+    const day = startOfDay(d);
+    if (!byDay.has(day.getTime())) byDay.set(day.getTime(), { day, todays: [], ahead: [] });
+    return byDay.get(day.getTime())!;
+  };
+
+  for (const p of people) {
+    if (isMuted(p, settings)) continue;
+    const leads = effectiveLeadDays(p, settings);
+    const maxLead = Math.max(0, ...leads);
+    // Per persoon door de occurrences lopen i.p.v. per dag iedereen te checken
+    let occ = nextOccurrence(p.dateISO, start, leapDay);
+    while (addDays(occ, -maxLead) < end) {
+      if ((p.sameDayReminder ?? true) && occ < end) slot(occ).todays.push(p);
+      for (const n of leads) {
+        const day = addDays(occ, -n);
+        if (day >= start && day < end) slot(day).ahead.push({ p, occ, daysBefore: n });
+      }
+      occ = nextOccurrence(p.dateISO, addDays(occ, 1), leapDay);
+    }
+  }
+
+  const plans: PlannedNotification[] = [];
+  for (const { day, todays, ahead } of byDay.values()) {
+    for (const group of groupByTime(todays, p => p, settings)) {
+      const at = setTimeToDate(day, group.hour, group.minute);
+      if (at <= now) continue;
+
+      const body = buildDailyBody(day, group.items, L, leapDay);
+      if (!body) continue;
+
+      // Alleen iOS kent bijlagen; bij meerdere jarigen de foto van de eerste die er een heeft
+      const photo = settings.notificationPhotos && Platform.OS === 'ios'
+        ? group.items.find(p => p.photoUri && !p.photoUri.startsWith('data:'))?.photoUri
+        : undefined;
+
+      plans.push(planned(`daily:${dayKey(day)}:${group.key}`, at, 0, {
+        title: L === 'nl' ? 'Vandaag' : 'Today',
+        body,
+        data: { type: 'daily-reminder', date: at.toISOString(), personIds: group.items.map(p => p.id) },
+        categoryIdentifier: DAILY_CATEGORY,
+        ...(photo && { attachments: [{ identifier: 'photo', url: photo, type: 'public.jpeg' }] }),
+        ...(Platform.OS === 'android' && { android: { channelId: 'daily-reminders' } }),
+      }));
+    }
+
+    for (const group of groupByTime(ahead, it => it.p, settings)) {
+      const at = setTimeToDate(day, group.hour, group.minute);
+      if (at <= now) continue;
+
+      const body = buildAdvanceBody(group.items, L, leapDay);
+      if (!body) continue;
+
+      plans.push(planned(`advance:${dayKey(day)}:${group.key}`, at, 1, {
+        title: L === 'nl' ? 'Binnenkort' : 'Coming up',
+        body,
+        data: { type: 'advance-reminder', date: at.toISOString(), personIds: group.items.map(it => it.p.id) },
+        ...(Platform.OS === 'android' && { android: { channelId: 'daily-reminders' } }),
+      }));
+    }
+  }
+  return plans;
+}
+
+function nextAnchorForWeekday(weekdaySetting: number, hour: number, minute: number, now = new Date()) {
+  // 1..7 (Mon..Sun) → JS 0..6 (Sun..Sat)
+  const jsDow = (weekdaySetting % 7); // 0 = Sunday
+  const anchor = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hour, minute, 0, 0);
+  // loop tot we op de gewenste weekday & toekomst zitten
+  while (anchor.getDay() !== jsDow || anchor <= now) {
+    anchor.setDate(anchor.getDate() + 1);
+  }
+  return anchor;
+}
+
+function planWeekly(settings: Settings, people: Person[], L: Locale, now: Date): PlannedNotification[] {
+  if (!settings.weeklySummaryEnabled) return [];
+
+  const first = nextAnchorForWeekday(
+    settings.weeklySummaryWeekday,
+    settings.weeklySummaryHour,
+    settings.weeklySummaryMinute,
+    now
+  );
+
+  const plans: PlannedNotification[] = [];
+  for (let i = 0; i < PLAN_HORIZON_WEEKS; i++) {
+    const when = new Date(first.getTime() + i * 7 * 24 * 60 * 60 * 1000);
+    if (when <= now) continue;
+
+    const weekStart = new Date(when);
+    const weekEnd = new Date(when.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    const weekEvents = people.filter(p => {
+      if (isMuted(p, settings)) return false;
+      // nextOccurrence i.p.v. het jaar van `when`: een week rond de jaarwisseling mist anders januari
+      const day = nextOccurrence(p.dateISO, weekStart, settings.leapDayPolicy);
+      return day >= weekStart && day < weekEnd;
+    });
+    if (weekEvents.length === 0) continue;
+
+    const body = buildWeeklyBody(weekStart, weekEvents, L, settings.leapDayPolicy);
+    if (!body) continue;
+
+    plans.push(planned(`weekly:${dayKey(when)}`, when, 2, {
+      title: L === 'nl' ? 'Overzicht komende week' : 'This week',
+      body,
+      data: { type: 'weekly-summary', anchor: when.toISOString() },
+      ...(Platform.OS === 'android' && { android: { channelId: 'weekly-summary' } }),
+    }));
+  }
+  return plans;
+}
+
+// Dichtstbijzijnde eerst; bij gelijke tijd gaat de melding op de dag zelf voor
+function allocateBudget(plans: PlannedNotification[], budget: number) {
+  return plans
+    .slice()
+    .sort((a, b) => a.at.getTime() - b.at.getTime() || a.priority - b.priority)
+    .slice(0, budget);
+}
+
+// Eén herplanning tegelijk: de UI-debounce en de achtergrond-task mogen elkaars
+// cancel/schedule-rondes niet kruisen
+let scheduleQueue: Promise<void> = Promise.resolve();
+function runExclusive(fn: () => Promise<void>) {
+  const run = scheduleQueue.then(fn, fn);
+  scheduleQueue = run.catch(() => {});
+  return run;
+}
+
+// Diff t.o.v. wat al gepland staat: alleen verdwenen of gewijzigde meldingen vervangen
+function scheduleAll(settings: Settings, people: Person[], L: Locale) {
+  return runExclusive(async () => {
+    const now = new Date();
+    const plans = allocateBudget(
+      [...planDaily(settings, people, L, now), ...planWeekly(settings, people, L, now)],
+      NOTIFICATION_BUDGET - SNOOZE_RESERVE
+    );
+    const wanted = new Map(plans.map(p => [p.id, p]));
+
+    const unchanged = new Set<string>();
+    const existing = await Notifications.getAllScheduledNotificationsAsync();
+    for (const n of existing) {
+      // Gesnoozede meldingen horen bij de gebruiker, niet bij de planner; alleen weg als
+      // niemand erin nog openstaat (verwijderd of al gefeliciteerd)
+      if (n.identifier.startsWith(SNOOZE_PREFIX)) {
+        if (!isStaleSnooze(n, people)) continue;
+      } else {
+        const plan = wanted.get(n.identifier);
+        if (plan && n.content.data?.sig === plan.sig) {
+          unchanged.add(n.identifier);
+          continue;
+        }
+      }
+      // Ook meldingen met een willekeurige id van oudere app-versies komen hier langs
+      try {
+        await Notifications.cancelScheduledNotificationAsync(n.identifier);
+      } catch {
+        // ignore
+      }
+    }
+
+    for (const plan of plans) {
+      if (unchanged.has(plan.id)) continue;
+      await scheduleSafe(await withAttachmentCopies(plan.request));
+    }
+  });
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Reageren op acties (listener in de app, cold start en Android-achtergrond)
+
+export const NOTIFICATION_ACTION_TASK = 'notification-action';
+
+// Wat de app doet met een actie; index.tsx geeft dit mee (state als de UI draait, anders de opslag).
+// eventIds = personIds uit de melding; year = jaar van de gevierde dag
+export type NotificationActionHandlers = {
+  open(eventIds: string[]): Promise<void> | void; // op de melding zelf getikt
+  markDone(eventIds: string[], year: number): Promise<void> | void;
+  sendGreeting(eventIds: string[]): Promise<void> | void;
+};
+
+const personIdsOf = (data: Record<string, unknown> | null | undefined) =>
+  Array.isArray(data?.personIds) ? data.personIds.filter((id): id is string => typeof id === 'string') : [];
+
+function isStaleSnooze(n: Notifications.NotificationRequest, people: Person[]) {
+  const data = n.content.data ?? {};
+  const year = (typeof data.date === 'string' ? new Date(data.date) : new Date()).getFullYear();
+  return !personIdsOf(data).some(id => {
+    const p = people.find(x => x.id === id);
+    return !!p && !p.congratulated?.includes(year);
+  });
+}
+
+// Geplande snoozes annuleren waarvoor `match` true geeft
+async function cancelSnoozes(match: (n: Notifications.NotificationRequest) => boolean) {
+  const existing = await Notifications.getAllScheduledNotificationsAsync();
+  for (const n of existing) {
+    if (!n.identifier.startsWith(SNOOZE_PREFIX) || !match(n)) continue;
+    await Notifications.cancelScheduledNotificationAsync(n.identifier).catch(() => {});
+  }
+}
+
+// Dezelfde melding opnieuw, met een eigen id zodat scheduleAll hem laat staan. Nooit meer dan
+// SNOOZE_RESERVE tegelijk: daarboven laat iOS stil meldingen vallen. De nieuwste snooze wint;
+// van de bestaande blijven de eerstvolgende staan.
+function snooze(content: Notifications.NotificationContent, at: Date) {
+  return runExclusive(async () => {
+    const existing = (await Notifications.getAllScheduledNotificationsAsync())
+      .filter(n => n.identifier.startsWith(SNOOZE_PREFIX))
+      .sort((a, b) => Number(a.identifier.slice(SNOOZE_PREFIX.length)) - Number(b.identifier.slice(SNOOZE_PREFIX.length)));
+    for (const n of existing.slice(SNOOZE_RESERVE - 1)) {
+      await Notifications.cancelScheduledNotificationAsync(n.identifier).catch(() => {});
+    }
+    await scheduleSnooze(content, at);
+  });
+}
+
+async function scheduleSnooze(content: Notifications.NotificationContent, at: Date) {
+  const data = content.data ?? {};
+  await scheduleSafe({
+    identifier: `${SNOOZE_PREFIX}${at.getTime()}`,
+    content: {
+      title: content.title ?? undefined,
+      body: content.body ?? undefined,
+      data: { ...data, snoozed: true },
+      categoryIdentifier: DAILY_CATEGORY,
+      ...(Platform.OS === 'android' && { android: { channelId: 'daily-reminders' } }),
+    },
+    trigger: dateTrigger(at),
+  });
+}
+
+// Vanavond om 20:00; is dat al (bijna) voorbij, dan over een uur
+function tonight(now: Date) {
+  const at = setTimeToDate(now, TONIGHT_HOUR, 0);
+  return at.getTime() - now.getTime() < 60 * 60 * 1000 ? new Date(now.getTime() + 60 * 60 * 1000) : at;
+}
+
+// Een cold start kan dezelfde response nog eens opleveren als de listener hem al had
+const handledResponses = new Set<string>();
+
+export async function handleNotificationResponse(response: Notifications.NotificationResponse, handlers: NotificationActionHandlers) {
+  const { notification, actionIdentifier } = response;
+  const key = `${notification.request.identifier}|${actionIdentifier}|${notification.date}`;
+  if (handledResponses.has(key)) return;
+  handledResponses.add(key);
+
+  const content = notification.request.content;
+  const data = content.data ?? {};
+  if (data.type !== 'daily-reminder') return;
+  const eventIds = personIdsOf(data);
+  const day = typeof data.date === 'string' ? new Date(data.date) : new Date(notification.date);
+  const now = new Date();
+
+  switch (actionIdentifier) {
+    case ACTION_SNOOZE_HOUR:
+      await snooze(content, new Date(now.getTime() + 60 * 60 * 1000));
+      break;
+    case ACTION_SNOOZE_TONIGHT:
+      await snooze(content, tonight(now));
+      break;
+    case ACTION_MARK_DONE:
+      await handlers.markDone(eventIds, day.getFullYear());
+      // Een eerdere snooze van dezelfde mensen hoeft niet meer af te gaan
+      await runExclusive(() => cancelSnoozes(n => personIdsOf(n.content.data).every(id => eventIds.includes(id))));
+      break;
+    case ACTION_SEND_GREETING:
+      await handlers.sendGreeting(eventIds);
+      break;
+    case Notifications.DEFAULT_ACTION_IDENTIFIER:
+      await handlers.open(eventIds);
+      return; // iOS/Android halen een getikte melding zelf weg
+    default:
+      return;
+  }
+  // Knop gebruikt → melding weg uit het meldingencentrum
+  await Notifications.dismissNotificationAsync(notification.request.identifier).catch(() => {});
+}
+
+// Listener voor als de app draait, plus de response waarmee de app gestart is; geeft een unsubscribe terug
+export function addNotificationActionListener(handlers: NotificationActionHandlers) {
+  if (Platform.OS === 'web') return () => {};
+  const sub = Notifications.addNotificationResponseReceivedListener(r => {
+    handleNotificationResponse(r, handlers).catch(e => console.error('notification action error', e));
+  });
+  const last = Notifications.getLastNotificationResponse();
+  if (last) {
+    Notifications.clearLastNotificationResponse();
+    handleNotificationResponse(last, handlers).catch(e => console.error('notification action error', e));
+  }
+  return () => sub.remove();
+}
+
+// Android: acties zonder de app te openen komen via een task binnen. Net als de top-up task in de globale scope.
+export function defineNotificationActionTask(getHandlers: () => NotificationActionHandlers) {
+  if (Platform.OS !== 'android') return;
+  if (TaskManager.isTaskDefined(NOTIFICATION_ACTION_TASK)) return;
+
+  TaskManager.defineTask<Notifications.NotificationTaskPayload>(NOTIFICATION_ACTION_TASK, async ({ data, error }) => {
+    if (error || !data || !('actionIdentifier' in data)) return;
+    try {
+      await handleNotificationResponse(data, getHandlers());
+    } catch (e) {
+      console.error('notification action task error', e);
+    }
+  });
+  Notifications.registerTaskAsync(NOTIFICATION_ACTION_TASK).catch(e => console.warn('registerTaskAsync failed', String(e)));
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Web: de browser plant niets vooruit, dus timers + Notification API zolang het tabblad open is
+
+// setTimeout kan niet verder vooruit dan ~24,8 dagen
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+let webTimers: ReturnType<typeof setTimeout>[] = [];
+
+const hasWebNotifications = () => Platform.OS === 'web' && typeof window !== 'undefined' && 'Notification' in window;
+
+export function webNotificationPermission(): NotificationPermission | 'unsupported' {
+  return hasWebNotifications() ? Notification.permission : 'unsupported';
+}
+
+async function ensureWebNotifPerms() {
+  if (!hasWebNotifications()) return false;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  return Notification.permission === 'granted';
+}
+
+function clearWebTimers() {
+  webTimers.forEach(clearTimeout);
+  webTimers = [];
+}
+
+function scheduleAllWeb(settings: Settings, people: Person[], L: Locale) {
+  clearWebTimers();
+  const now = new Date();
+  // Geen budget nodig; alleen wat binnen de timerlimiet valt
+  const plans = [...planDaily(settings, people, L, now), ...planWeekly(settings, people, L, now)];
+  for (const plan of plans) {
+    const delay = plan.at.getTime() - now.getTime();
+    if (delay <= 0 || delay > MAX_TIMEOUT_MS) continue;
+    webTimers.push(setTimeout(() => {
+      const { title, body } = plan.request.content;
+      // tag voorkomt dubbele meldingen als de app in twee tabbladen open staat
+      new Notification(title ?? '', { body: body ?? undefined, tag: plan.id });
+    }, delay));
+  }
+  // Blijft het tabblad langer open dan de timerlimiet, dan schuift de horizon op
+  webTimers.push(setTimeout(() => scheduleAllWeb(settings, people, L), MAX_TIMEOUT_MS));
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Publieke API
+
+export async function clearAllScheduled() {
+  if (Platform.OS === 'web') {
+    clearWebTimers();
+    return;
+  }
+  try {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  } catch {
+    // ignore
+  }
+}
+
+export async function rescheduleAllNotifications(settings: Settings, people: Person[], L: Locale) {
+  // Op web nooit zelf vragen: de browser staat dat alleen toe na een tik van de gebruiker
+  if (Platform.OS === 'web') {
+    if (webNotificationPermission() === 'granted') scheduleAllWeb(settings, people, L);
+    else clearWebTimers();
+    return;
+  }
+  const ok = await ensureNotifPerms();
+  if (!ok) return;
+
+  await ensureAndroidChannels();
+  await ensureNotificationCategories(L);
+  await scheduleAll(settings, people, L);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Achtergrond-aanvulling: het budget dekt soms maar een paar weken, dus het OS wekt de app
+// af en toe om de horizon op te schuiven, ook als de app zelf niet geopend wordt.
+export const NOTIFICATION_TOP_UP_TASK = 'notification-top-up';
+
+type TopUpState = { settings: Settings; people: Person[] };
+
+// Moet in de globale scope draaien (vóór de eerste render), anders vindt het OS de task niet
+export function defineNotificationTopUpTask(loadState: () => Promise<TopUpState | null>) {
+  if (Platform.OS === 'web') return;
+  if (TaskManager.isTaskDefined(NOTIFICATION_TOP_UP_TASK)) return;
+
+  TaskManager.defineTask(NOTIFICATION_TOP_UP_TASK, async () => {
+    try {
+      // In de achtergrond nooit om permissie vragen; alleen plannen als het al mag
+      const { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') return BackgroundTask.BackgroundTaskResult.Success;
+
+      const state = await loadState();
+      if (!state) return BackgroundTask.BackgroundTaskResult.Success;
+
+      await ensureNotificationCategories(state.settings.locale);
+      await scheduleAll(state.settings, state.people, state.settings.locale);
+      return BackgroundTask.BackgroundTaskResult.Success;
+    } catch (e) {
+      console.error('notification top-up error', e);
+      return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+  });
+}
+
+export async function registerNotificationTopUpAsync() {
+  if (Platform.OS === 'web') return;
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) return;
+    // minuten; het OS bepaalt uiteindelijk zelf wanneer de task draait
+    await BackgroundTask.registerTaskAsync(NOTIFICATION_TOP_UP_TASK, { minimumInterval: 12 * 60 });
+  } catch (e) {
+    console.warn('registerNotificationTopUpAsync failed', String(e));
+  }
+}
+
+// Utility: signature voor idempotent rescheduling vanuit index.tsx
+export function buildNotificationSignature(settings: Settings, people: Person[]) {
+  const base =
+    `${settings.weeklySummaryEnabled}|${settings.weeklySummaryWeekday}|${settings.weeklySummaryHour}|${settings.weeklySummaryMinute}|${settings.sameDayHour}|${settings.sameDayMinute}|${settings.locale}|${settings.leapDayPolicy}|${(settings.defaultLeadDays ?? []).join(',')}|${settings.notificationPhotos ? 1 : 0}|${(settings.tags ?? []).map(tag => `${tag.name}:${tag.muted ? 1 : 0}:${tag.leadDays?.join(',') ?? '-'}`).join(';')}`;
+  const ppl = people
+    .map(p => `${p.id}|${p.name}|${p.type}|${p.dateISO}|${p.sameDayReminder ? 1 : 0}|${p.leadDays?.join(',') ?? '-'}|${p.reminderHour ?? '-'}:${p.reminderMinute ?? '-'}|${p.tags?.join(',') ?? ''}|${p.photoUri ?? ''}|${p.giftIdeas ?? 0}|${p.congratulated?.join(',') ?? ''}`)
+    .sort()
+    .join(';');
+  return base + '||' + ppl;
+}
+
+// (Optioneel) debughulp
+export async function debugScheduledNotifications() {
+  if (Platform.OS === 'web') {
+    console.log('[notifications] web timers:', webTimers.length);
+    return;
+  }
+  const all = await Notifications.getAllScheduledNotificationsAsync();
+  console.log('[notifications] scheduled count:', all.length);
+  for (const n of all) {
+    // probeer de volgende trigger te berekenen voor logging
+    try {
+      const next = await Notifications.getNextTriggerDateAsync(n.trigger as any);
+      console.log(' • id:', (n as any).identifier, 'next:', next ? new Date(next).toISOString() : null);
+    } catch {
+      console.log(' • id:', (n as any).identifier, 'next: (unavailable)');
+    }
+  }
+}
@@ -0,0 +1,190 @@
+// storage.ts
+// Opslag-repository: één async API met in-memory cache en schrijfwachtrij,
+// bovenop MMKV (native), AsyncStorage (fallback, o.a. Expo Go) of IndexedDB (web)
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, Platform } from 'react-native';
+import { MMKV } from 'react-native-mmkv';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Backends
+
+export type StorageBackend = {
+  name: 'mmkv' | 'async-storage' | 'web';
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+};
+
+function mmkvBackend(): StorageBackend {
+  const mmkv = new MMKV();
+  return {
+    name: 'mmkv',
+    getItem: async (k) => mmkv.getString(k) ?? null,
+    setItem: async (k, v) => mmkv.set(k, v),
+    removeItem: async (k) => mmkv.delete(k),
+  };
+}
+
+const asyncStorageBackend: StorageBackend = {
+  name: 'async-storage',
+  getItem: (k) => AsyncStorage.getItem(k),
+  setItem: (k, v) => AsyncStorage.setItem(k, v),
+  removeItem: (k) => AsyncStorage.removeItem(k),
+};
+
+// IndexedDB i.p.v. localStorage: geen limiet van ~5 MB, niet synchroon, en met
+// navigator.storage.persist() ruimt de browser het niet zomaar op
+const IDB_NAME = 'mybirthdaytracker';
+const IDB_STORE = 'kv';
+
+function webBackend(): StorageBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = () => {
+    if (!dbPromise) {
+      // Tijdens server-side rendering (expo export) bestaat indexedDB niet
+      if (typeof indexedDB === 'undefined') return Promise.reject(new Error('INDEXEDDB_UNAVAILABLE'));
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(IDB_NAME, 1);
+        req.onupgradeneeded = () => { req.result.createObjectStore(IDB_STORE); };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      dbPromise.catch(() => { dbPromise = null; });
+      navigator.storage?.persist?.().catch(() => {});
+    }
+    return dbPromise;
+  };
+  // Eén request per transactie; resolved pas als de transactie echt klaar is
+  const run = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+    openDb().then(db => new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(IDB_STORE, mode);
+      const req = fn(tx.objectStore(IDB_STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    }));
+
+  return {
+    name: 'web',
+    getItem: async (k) => {
+      if (typeof indexedDB === 'undefined') return null;
+      const v = await run<unknown>('readonly', s => s.get(k));
+      return typeof v === 'string' ? v : null;
+    },
+    setItem: async (k, v) => { await run('readwrite', s => s.put(v, k)); },
+    removeItem: async (k) => { await run('readwrite', s => s.delete(k)); },
+  };
+}
+
+function createBackend(): StorageBackend {
+  if (Platform.OS === 'web') return webBackend();
+  try {
+    // Probeer MMKV (snelste, beste optie)
+    return mmkvBackend();
+  } catch (e) {
+    console.log('MMKV init failed → fallback naar AsyncStorage', String(e));
+    return asyncStorageBackend;
+  }
+}
+
+const backend = createBackend();
+console.log(`Storage: ${backend.name} actief`);
+
+export const storageBackendName = backend.name;
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Cache + schrijfwachtrij
+
+// Alles wat gelezen of geschreven is; null = bestaat niet
+const cache = new Map<string, string | null>();
+// Nog niet weggeschreven wijzigingen (laatste wint); null = verwijderen
+const pending = new Map<string, string | null>();
+
+const FLUSH_DELAY_MS = 50;
+const RETRY_DELAY_MS = 2000;
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+// Flushes lopen achter elkaar, zodat een oudere waarde nooit een nieuwere overschrijft
+let flushChain: Promise<void> = Promise.resolve();
+
+function scheduleFlush(delay = FLUSH_DELAY_MS) {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushStorage().catch(() => {});
+  }, delay);
+}
+
+// Schrijft alle openstaande wijzigingen weg; resolved als dat gelukt is
+export function flushStorage(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  const run = flushChain.then(async () => {
+    if (pending.size === 0) return;
+    const batch = [...pending];
+    pending.clear();
+
+    let failed: unknown = null;
+    for (const [k, v] of batch) {
+      try {
+        if (v === null) await backend.removeItem(k);
+        else await backend.setItem(k, v);
+      } catch (e) {
+        failed = e;
+        // Terug in de wachtrij, tenzij er intussen een nieuwere waarde is
+        if (!pending.has(k)) pending.set(k, v);
+      }
+    }
+    if (failed) {
+      console.error('Opslaan mislukt, later opnieuw', failed);
+      scheduleFlush(RETRY_DELAY_MS);
+      throw failed;
+    }
+  });
+  flushChain = run.catch(() => {});
+  return run;
+}
+
+// Bij naar de achtergrond gaan direct wegschrijven; de app kan daarna elk moment stoppen
+AppState.addEventListener('change', (state) => {
+  if (state !== 'active') flushStorage().catch(() => {});
+});
+if (Platform.OS === 'web' && typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => { flushStorage().catch(() => {}); });
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// API
+
+export async function getItem(k: string): Promise<string | null> {
+  // Ook nog niet weggeschreven waarden staan al in de cache
+  if (cache.has(k)) return cache.get(k) as string | null;
+  const v = await backend.getItem(k);
+  // Een set() tijdens het lezen is nieuwer dan wat de backend teruggaf
+  if (!cache.has(k)) cache.set(k, v);
+  return cache.get(k) as string | null;
+}
+
+export function setItem(k: string, v: string) {
+  cache.set(k, v);
+  pending.set(k, v);
+  scheduleFlush();
+}
+
+export function removeItem(k: string) {
+  cache.set(k, null);
+  pending.set(k, null);
+  scheduleFlush();
+}
+
+// JSON helpers
+export async function getJSON<T>(k: string): Promise<T | null> {
+  const s = await getItem(k);
+  if (!s) return null;
+  try { return JSON.parse(s) as T; } catch { return null; }
+}
+export function setJSON<T>(k: string, v: T) {
+  setItem(k, JSON.stringify(v));
+}
@@ -0,0 +1,36 @@
+// store.ts
+// Gedeelde state tussen schermen: werkt als useState, maar elk scherm dat use() aanroept
+// ziet dezelfde waarde (index.tsx laadt en bewaart; person/[id].tsx leest en past aan)
+import { useSyncExternalStore } from 'react';
+
+export type SharedState<T> = {
+  get(): T;
+  set(next: T | ((prev: T) => T)): void;
+  subscribe(listener: () => void): () => void;
+  use(): [T, (next: T | ((prev: T) => T)) => void];
+};
+
+export function createSharedState<T>(initial: T): SharedState<T> {
+  let value = initial;
+  const listeners = new Set<() => void>();
+
+  const state: SharedState<T> = {
+    get: () => value,
+    // Zelfde vorm als de setter van useState (ook met een functie), en net zo stabiel
+    set(next) {
+      const v = typeof next === 'function' ? (next as (prev: T) => T)(value) : next;
+      if (Object.is(v, value)) return;
+      value = v;
+      listeners.forEach(l => l());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    use() {
+      const v = useSyncExternalStore(state.subscribe, state.get, state.get);
+      return [v, state.set];
+    },
+  };
+  return state;
+}
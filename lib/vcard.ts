@@ -0,0 +1,245 @@
+// vcard.ts
+// vCard 3.0/4.0 (RFC 2426 / RFC 6350) ↔ Person: BDAY en ANNIVERSARY, ook jaarloos (--MMDD)
+import type { EventType, Person } from '@/app/index';
+import { fold } from './ical';
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+export type ImportSkipReason = 'skipNoName' | 'skipNoDate' | 'skipBadDate';
+
+export type VCardImport = {
+  people: Person[];
+  skipped: { label: string; reason: ImportSkipReason }[];
+};
+
+type VCardProp = {
+  group?: string; // 'item1' in 'item1.X-ABDATE'
+  name: string; // altijd uppercase
+  params: Record<string, string>;
+  value: string;
+};
+
+// Datum-eigenschap per type in de eigen export; 'other' kent vCard niet
+const DATE_PROPS: Record<EventType, string> = { birthday: 'BDAY', anniversary: 'ANNIVERSARY', other: 'X-MBT-DATE' };
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Herkennen
+
+export function looksLikeVCard(text: string) {
+  return /^\s*BEGIN:VCARD/i.test(text);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Parsen
+
+// Regels die met spatie/tab beginnen horen bij de vorige regel (line folding)
+function unfold(text: string) {
+  return text.replace(/\r?\n[ \t]/g, '');
+}
+
+function unescapeText(v: string) {
+  return v.replace(/\\([\\,;nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function parseLine(line: string): VCardProp | null {
+  // Eerste ':' buiten quotes scheidt naam+params van de waarde
+  let inQ = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQ = !inQ;
+    else if (line[i] === ':' && !inQ) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [head, ...paramParts] = line.slice(0, colon).split(';');
+  const dot = head.indexOf('.');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    // vCard 2.1/3.0 staat kale params toe ('TYPE' weggelaten)
+    if (eq < 0) params.TYPE = part;
+    else params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return {
+    group: dot >= 0 ? head.slice(0, dot) : undefined,
+    name: (dot >= 0 ? head.slice(dot + 1) : head).toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  };
+}
+
+// 19610825, 1961-08-25, --0825, --08-25 (evt. met tijd erachter) → YYYY-MM-DD of --MM-DD
+function parseVCardDate(raw: string): string | null {
+  const v = raw.trim().split('T')[0];
+  const full = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(v);
+  const yearless = /^--(\d{2})-?(\d{2})$/.exec(v);
+  if (!full && !yearless) return null;
+
+  // Apple Contacts schrijft 1604 als jaar wanneer het jaar niet is ingevuld
+  const y = full && full[1] !== '1604' ? Number(full[1]) : undefined;
+  const m = Number(full ? full[2] : yearless![1]);
+  const d = Number(full ? full[3] : yearless![2]);
+  if (m < 1 || m > 12 || d < 1 || d > new Date(y ?? 2000, m, 0).getDate()) return null;
+
+  const mmdd = `${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+  return y === undefined ? `--${mmdd}` : `${y}-${mmdd}`;
+}
+
+function displayName(props: VCardProp[]) {
+  const fn = props.find(p => p.name === 'FN');
+  if (fn && unescapeText(fn.value).trim()) return unescapeText(fn.value).trim();
+  // N = Achternaam;Voornaam;Tussennamen;Prefix;Suffix
+  const n = props.find(p => p.name === 'N');
+  if (!n) return '';
+  const [family = '', given = '', middle = ''] = n.value.split(';').map(unescapeText);
+  return [given, middle, family].map(s => s.trim()).filter(Boolean).join(' ');
+}
+
+// Telefoon (mobiel heeft voorkeur; 4.0 schrijft 'tel:+31…') en het eerste e-mailadres
+function contactDetails(props: VCardProp[]) {
+  const tels = props.filter(p => p.name === 'TEL');
+  const tel = tels.find(p => /cell/i.test(p.params.TYPE ?? '')) ?? tels[0];
+  const email = props.find(p => p.name === 'EMAIL');
+  return {
+    phone: tel ? tel.value.replace(/^tel:/i, '').trim() || undefined : undefined,
+    email: email ? unescapeText(email.value).replace(/^mailto:/i, '').trim() || undefined : undefined,
+  };
+}
+
+// Apple bewaart trouwdagen als 'itemN.X-ABDATE' met een label in 'itemN.X-ABLABEL'
+function isAppleAnniversary(prop: VCardProp, props: VCardProp[]) {
+  if (prop.name !== 'X-ABDATE' || !prop.group) return false;
+  const label = props.find(p => p.group === prop.group && p.name === 'X-ABLABEL');
+  return !!label && /anniversary/i.test(label.value);
+}
+
+export function parseVCards(text: string, newId: () => string): VCardImport {
+  const people: Person[] = [];
+  const skipped: VCardImport['skipped'] = [];
+
+  let card: VCardProp[] | null = null;
+  for (const line of unfold(text).split(/\r?\n/)) {
+    const prop = parseLine(line.trim());
+    if (!prop) continue;
+    if (prop.name === 'BEGIN' && /^vcard$/i.test(prop.value)) { card = []; continue; }
+    if (!card) continue;
+    if (prop.name !== 'END') { card.push(prop); continue; }
+
+    const props: VCardProp[] = card;
+    card = null;
+
+    const name = displayName(props);
+    if (!name) {
+      skipped.push({ label: '?', reason: 'skipNoName' });
+      continue;
+    }
+    const uid = props.find(p => p.name === 'UID')?.value.trim();
+    const details = contactDetails(props);
+
+    // Eigen export: één kaart per contact, elke gebeurtenis in een eigen groep (item1.BDAY, item1.X-MBT-TYPE, …)
+    // met type/label/id zodat een round-trip niets verliest. Oudere exports schreven één kaart per
+    // gebeurtenis, zonder groepen en met het contact in X-MBT-CONTACT.
+    const ownTypes = props.filter(p => p.name === 'X-MBT-TYPE' && Object.keys(DATE_PROPS).includes(p.value.trim()));
+    if (ownTypes.length > 0) {
+      const legacy = !ownTypes[0].group;
+      const contactId = legacy ? props.find(p => p.name === 'X-MBT-CONTACT')?.value.trim() || undefined : uid || newId();
+      for (const typeProp of ownTypes) {
+        const type = typeProp.value.trim() as EventType;
+        const inGroup = (propName: string) => props.find(p => p.name === propName && p.group === typeProp.group);
+        const dateProp = inGroup(DATE_PROPS[type]);
+        const dateISO = dateProp ? parseVCardDate(dateProp.value) : null;
+        if (!dateISO) {
+          skipped.push({ label: name, reason: dateProp ? 'skipBadDate' : 'skipNoDate' });
+          continue;
+        }
+        const label = inGroup('X-MBT-LABEL');
+        people.push({
+          id: (legacy ? uid : inGroup('X-MBT-ID')?.value.trim()) || newId(),
+          contactId,
+          name,
+          type,
+          dateISO,
+          label: label ? unescapeText(label.value) : undefined,
+          sameDayReminder: true,
+          ...details,
+        });
+      }
+      continue;
+    }
+
+    // Gewone adresboek-kaart: een verjaardag en/of trouwdag → losse Person-regels
+    const events: { type: EventType; prop: VCardProp }[] = [];
+    for (const p of props) {
+      if (p.name === 'BDAY') events.push({ type: 'birthday', prop: p });
+      else if (['ANNIVERSARY', 'X-ANNIVERSARY', 'X-MS-ANNIVERSARY'].includes(p.name) || isAppleAnniversary(p, props)) {
+        events.push({ type: 'anniversary', prop: p });
+      }
+    }
+    if (events.length === 0) {
+      skipped.push({ label: name, reason: 'skipNoDate' });
+      continue;
+    }
+
+    // Verjaardag en trouwdag van dezelfde kaart horen bij één contact
+    const contactId = uid || newId();
+    for (const ev of events) {
+      // VALUE=text ('circa 1800') kunnen we niet plaatsen
+      const dateISO = ev.prop.params.VALUE?.toLowerCase() === 'text' ? null : parseVCardDate(ev.prop.value);
+      if (!dateISO) {
+        skipped.push({ label: name, reason: 'skipBadDate' });
+        continue;
+      }
+      // Stabiele id bij een UID, zodat opnieuw importeren bijwerkt i.p.v. dupliceert
+      const id = uid ? `${uid}-${ev.type}` : newId();
+      if (people.some(p => p.id === id)) continue;
+      people.push({ id, contactId, name, type: ev.type, dateISO, sameDayReminder: true, ...details });
+    }
+  }
+
+  return { people, skipped };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Exporteren (vCard 4.0: kent ANNIVERSARY en jaarloze datums)
+
+function escapeText(v: string) {
+  return v.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+}
+
+// YYYY-MM-DD → 19610825, --MM-DD → --0825
+function toVCardDate(dateISO: string) {
+  return dateISO.startsWith('--') ? dateISO.replace(/-(\d{2})$/, '$1') : dateISO.replace(/-/g, '');
+}
+
+// Eén kaart per contact, zoals een adresboek het verwacht; de gebeurtenissen staan er samen op
+export function toVCards(people: Person[]) {
+  const byContact = new Map<string, Person[]>();
+  for (const p of people) {
+    const key = p.contactId ?? p.id;
+    byContact.set(key, [...(byContact.get(key) ?? []), p]);
+  }
+
+  const lines: string[] = [];
+  for (const [contactId, events] of byContact) {
+    const { name, phone, email } = events[0];
+    lines.push(
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      `UID:${contactId}`,
+      `FN:${escapeText(name)}`,
+      ...(phone ? [`TEL;VALUE=uri;TYPE=cell:tel:${phone.replace(/\s/g, '')}`] : []),
+      ...(email ? [`EMAIL:${escapeText(email)}`] : []),
+    );
+    events.forEach((p, i) => {
+      const group = `item${i + 1}`;
+      lines.push(
+        `${group}.${DATE_PROPS[p.type]}:${toVCardDate(p.dateISO)}`,
+        `${group}.X-MBT-TYPE:${p.type}`,
+        `${group}.X-MBT-ID:${p.id}`,
+        ...(p.label?.trim() ? [`${group}.X-MBT-LABEL:${escapeText(p.label.trim())}`] : []),
+      );
+    });
+    lines.push('END:VCARD');
+  }
+  return lines.map(fold).join('\r\n') + '\r\n';
+}